@@ -0,0 +1,84 @@
+/**
+ * Contract for the recognize server's batch endpoints (/api/batch), which recognize long
+ * recordings such as DJ sets as background jobs.
+ */
+
+import {
+  array,
+  integer,
+  literal,
+  nonEmptyString,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  withDescription,
+  type Infer,
+} from './schema.ts';
+import { providerNameSchema, recognizedTrackSchema } from './recognize.ts';
+
+export const batchJobStatusSchema = oneOf('queued', 'running', 'completed', 'failed', 'cancelled');
+
+export const batchProgressFields = {
+  status: batchJobStatusSchema,
+  processedSeconds: number(),
+  durationSeconds: withDescription(nullable(number()), 'Recording length, when the container states it.'),
+  windowsDone: integer(0),
+  windowsTotal: nullable(integer(0)),
+  progress: withDescription(nullable(number()), '0-1, or null while the duration is unknown.'),
+};
+
+export const batchJobSchema = object({
+  id: nonEmptyString(),
+  fileName: string(),
+  createdAt: number(),
+  startedAt: nullable(number()),
+  finishedAt: nullable(number()),
+  ...batchProgressFields,
+  windowsFailed: withDescription(integer(0), 'Windows whose provider call failed; they count as unmatched.'),
+  error: nullable(string()),
+});
+
+export const batchSegmentSchema = object({
+  track: recognizedTrackSchema,
+  provider: providerNameSchema,
+  startSeconds: number(),
+  endSeconds: number(),
+  offsetSeconds: withDescription(nullable(number()), 'Song position at startSeconds, when the provider reported one.'),
+  windows: withDescription(integer(1), 'Windows that matched this track.'),
+});
+
+/** Missing upload, unknown job, full queue, rate limited, ... */
+export const batchErrorSchema = object({
+  success: literal(false),
+  error: string(),
+  retryAfterSeconds: optional(withDescription(integer(0), 'Sent with 429, same as the Retry-After header.')),
+});
+
+/** POST /api/batch (202) and POST /api/batch/:id/cancel. */
+export const batchJobResponseSchema = object({
+  success: literal(true),
+  job: batchJobSchema,
+});
+
+/** GET /api/batch/:id; segments is the tracklist so far. */
+export const batchResultResponseSchema = object({
+  success: literal(true),
+  job: batchJobSchema,
+  segments: array(batchSegmentSchema),
+});
+
+export const batchProgressResponseSchema = object({
+  success: literal(true),
+  ...batchProgressFields,
+});
+
+export type BatchJobStatus = Infer<typeof batchJobStatusSchema>;
+export type BatchJobSummary = Infer<typeof batchJobSchema>;
+export type BatchError = Infer<typeof batchErrorSchema>;
+export type BatchSegment = Infer<typeof batchSegmentSchema>;
+export type BatchJobResponse = Infer<typeof batchJobResponseSchema>;
+export type BatchResultResponse = Infer<typeof batchResultResponseSchema>;
+export type BatchProgressResponse = Infer<typeof batchProgressResponseSchema>;
@@ -0,0 +1,6 @@
+/**
+ * Headers shared by the frontend, the recognize server and the Edge Functions.
+ */
+
+/** Generated by the frontend per recognition (or stream); echoed back and logged by every service it reaches. */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
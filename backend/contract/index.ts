@@ -0,0 +1,11 @@
+/**
+ * Shared API contract between the recognize server, the Edge Functions and the frontend.
+ * Types come from the runtime schemas, so a field changed on one side fails the
+ * type-check (or the contract tests) on the other instead of breaking silently.
+ */
+
+export { formatIssues, parse, type Issue, type JsonSchema, type ParseResult, type Schema } from './schema.ts';
+export * from './recognize.ts';
+export * from './batch.ts';
+export * from './youtube.ts';
+export * from './headers.ts';
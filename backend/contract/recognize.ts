@@ -0,0 +1,119 @@
+/**
+ * Contract for POST /api/recognize (recognize server) as read by the frontend.
+ * Request: multipart with the clip as "audio" and optional "capturedAt" (epoch ms),
+ * "locale" (language of the returned title, e.g. hi-IN) and "metadataLocales"
+ * (comma-separated languages to also fetch titleVariants in).
+ */
+
+import {
+  array,
+  boolean,
+  integer,
+  literal,
+  nonEmptyString,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parse,
+  string,
+  union,
+  withDescription,
+  type Infer,
+  type ParseResult,
+} from './schema.ts';
+
+/** Writing system of a title; Bollywood tracks come back in Devanagari and romanized forms. */
+export const titleScriptSchema = oneOf('latin', 'devanagari', 'gurmukhi', 'other');
+
+/** The track's title and artist as the provider names them in one language. */
+export const titleVariantSchema = object({
+  locale: string(),
+  script: titleScriptSchema,
+  title: string(),
+  subtitle: string(),
+});
+
+/** Subset of Shazam's track shape; every provider answers in it. */
+export const recognizedTrackSchema = object({
+  key: nonEmptyString(),
+  title: string(),
+  subtitle: string(),
+  type: optional(string()),
+  images: optional(
+    object({
+      coverart: optional(string()),
+      background: optional(string()),
+    })
+  ),
+  hub: optional(
+    object({
+      actions: optional(
+        array(
+          object({
+            name: string(),
+            type: string(),
+            uri: optional(string()),
+          })
+        )
+      ),
+    })
+  ),
+  url: optional(string()),
+  titleVariants: optional(
+    withDescription(
+      array(titleVariantSchema),
+      'Title and artist in each requested locale, the title above included; absent when only one was fetched.'
+    )
+  ),
+});
+
+export const providerNameSchema = oneOf('shazam', 'local', 'mock');
+
+/** Measurements of the uploaded clip, so the client can suggest a fix. */
+export const audioDiagnosticsSchema = object({
+  loudnessDbfs: withDescription(number(), 'RMS level of the clip in dBFS.'),
+  peakDbfs: number(),
+  clippingRatio: withDescription(number(), 'Share of samples at or near full scale (0-1).'),
+  estimatedSnrDb: withDescription(number(), 'Loud frames vs quiet frames; low for a flat crowd-noise bed.'),
+  warnings: array(oneOf('too-quiet', 'clipping', 'noisy')),
+});
+
+export const recognizeSuccessSchema = object({
+  success: literal(true),
+  cached: withDescription(boolean(), 'Answered from the recent-recognition cache without asking a provider.'),
+  provider: providerNameSchema,
+  score: optional(withDescription(number(), 'Match confidence (0-1), when the provider reports one.')),
+  diagnostics: audioDiagnosticsSchema,
+  data: object({
+    matches: array(object({ track: recognizedTrackSchema })),
+    track: recognizedTrackSchema,
+    offsetSeconds: withDescription(nullable(number()), 'Song position (s) at capturedAt, when the provider reports one.'),
+    capturedAt: withDescription(number(), 'Epoch ms the clip started recording (the request field, or the server clock).'),
+  }),
+});
+
+/** No match (200, with diagnostics), bad upload (400/413), rate limited (429) or server error (500). */
+export const recognizeFailureSchema = object({
+  success: literal(false),
+  error: string(),
+  diagnostics: optional(withDescription(audioDiagnosticsSchema, 'Sent with "Could not identify the song."')),
+  retryAfterSeconds: optional(withDescription(integer(0), 'Sent with 429, same as the Retry-After header.')),
+});
+
+export const recognizeResponseSchema = union(recognizeSuccessSchema, recognizeFailureSchema);
+
+export type RecognizedTrack = Infer<typeof recognizedTrackSchema>;
+export type TitleVariant = Infer<typeof titleVariantSchema>;
+export type TitleScript = Infer<typeof titleScriptSchema>;
+export type ProviderName = Infer<typeof providerNameSchema>;
+export type AudioDiagnostics = Infer<typeof audioDiagnosticsSchema>;
+export type DiagnosticWarning = AudioDiagnostics['warnings'][number];
+export type RecognizeSuccess = Infer<typeof recognizeSuccessSchema>;
+export type RecognizeFailure = Infer<typeof recognizeFailureSchema>;
+export type RecognizeResponse = Infer<typeof recognizeResponseSchema>;
+
+export function parseRecognizeResponse(value: unknown): ParseResult<RecognizeResponse> {
+  return parse(recognizeResponseSchema, value);
+}
@@ -0,0 +1,219 @@
+/**
+ * Minimal runtime schemas for the API contract.
+ * Dependency-free so the same files run in Node (recognize server), Deno (Edge Functions)
+ * and the browser. Each schema checks a value and its TypeScript type is derived from it,
+ * so the static types and the runtime checks can't drift apart. Schemas also render as
+ * JSON Schema, which the recognize server's OpenAPI document is generated from.
+ */
+
+export interface Issue {
+  /** Where the problem is, e.g. "data.track.key". */
+  path: string;
+  message: string;
+}
+
+/** JSON Schema (2020-12, as used by OpenAPI 3.1). */
+export type JsonSchema = { [keyword: string]: unknown };
+
+export type ParseResult<T> = { success: true; data: T } | { success: false; issues: Issue[] };
+
+export interface Schema<T> {
+  /** Push problems with value onto issues; path names value for messages. */
+  check(value: unknown, path: string, issues: Issue[]): void;
+  jsonSchema(): JsonSchema;
+  /** Marks object keys that may be missing. */
+  readonly optional?: boolean;
+  /** Type carrier only; never set at runtime. */
+  readonly _type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type ObjectOutput<S extends Shape> = Simplify<
+  { [K in keyof S as S[K] extends { optional: true } ? never : K]: Infer<S[K]> } & {
+    [K in keyof S as S[K] extends { optional: true } ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+function kindOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+        issues.push({ path, message: `expected ${type}, got ${kindOf(value)}` });
+      }
+    },
+    jsonSchema: () => ({ type }),
+  };
+}
+
+export const string = (): Schema<string> => primitive('string');
+export const number = (): Schema<number> => primitive('number');
+export const boolean = (): Schema<boolean> => primitive('boolean');
+
+/** Non-empty after trimming. */
+export function nonEmptyString(): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'string' || value.trim() === '') {
+        issues.push({ path, message: `expected non-empty string, got ${kindOf(value)}` });
+      }
+    },
+    jsonSchema: () => ({ type: 'string', pattern: '\\S' }),
+  };
+}
+
+export function integer(min = -Infinity, max = Infinity): Schema<number> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        issues.push({ path, message: `expected integer between ${min} and ${max}, got ${JSON.stringify(value)}` });
+      }
+    },
+    jsonSchema: () => ({
+      type: 'integer',
+      ...(Number.isFinite(min) ? { minimum: min } : {}),
+      ...(Number.isFinite(max) ? { maximum: max } : {}),
+    }),
+  };
+}
+
+export function literal<const T extends string | number | boolean>(expected: T): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (value !== expected) issues.push({ path, message: `expected ${JSON.stringify(expected)}, got ${JSON.stringify(value)}` });
+    },
+    jsonSchema: () => ({ const: expected }),
+  };
+}
+
+export function oneOf<const T extends readonly string[]>(...values: T): Schema<T[number]> {
+  return {
+    check(value, path, issues) {
+      if (!values.includes(value as string)) {
+        issues.push({ path, message: `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}` });
+      }
+    },
+    jsonSchema: () => ({ type: 'string', enum: [...values] }),
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check(value, path, issues) {
+      if (value !== null) schema.check(value, path, issues);
+    },
+    jsonSchema: () => ({ anyOf: [schema.jsonSchema(), { type: 'null' }] }),
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> & { optional: true } {
+  return {
+    optional: true,
+    check(value, path, issues) {
+      if (value !== undefined) schema.check(value, path, issues);
+    },
+    // Optionality shows up as the key missing from the object's "required"
+    jsonSchema: () => schema.jsonSchema(),
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${kindOf(value)}` });
+        return;
+      }
+      value.forEach((element, index) => item.check(element, join(path, index), issues));
+    },
+    jsonSchema: () => ({ type: 'array', items: item.jsonSchema() }),
+  };
+}
+
+/** Object with the given keys; extra keys are allowed so either side can add fields first. */
+export function object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${kindOf(value)}` });
+        return;
+      }
+      for (const [key, schema] of Object.entries(shape)) {
+        const field = (value as Record<string, unknown>)[key];
+        if (field === undefined && !schema.optional) {
+          issues.push({ path: join(path, key), message: 'required' });
+        } else {
+          schema.check(field, join(path, key), issues);
+        }
+      }
+    },
+    jsonSchema: () => {
+      const required = Object.keys(shape).filter((key) => !shape[key].optional);
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.jsonSchema()])),
+        ...(required.length > 0 ? { required } : {}),
+      };
+    },
+  };
+}
+
+/** Object with arbitrary keys whose values all match the given schema. */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    check(input, path, issues) {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        issues.push({ path, message: `expected object, got ${kindOf(input)}` });
+        return;
+      }
+      for (const [key, field] of Object.entries(input)) value.check(field, join(path, key), issues);
+    },
+    jsonSchema: () => ({ type: 'object', additionalProperties: value.jsonSchema() }),
+  };
+}
+
+/** Matches when any of the schemas does; reports the issues of the closest one. */
+export function union<T extends Schema<unknown>[]>(...schemas: T): Schema<Infer<T[number]>> {
+  return {
+    check(value, path, issues) {
+      let best: Issue[] | null = null;
+      for (const schema of schemas) {
+        const attempt: Issue[] = [];
+        schema.check(value, path, attempt);
+        if (attempt.length === 0) return;
+        if (!best || attempt.length < best.length) best = attempt;
+      }
+      issues.push(...(best ?? []));
+    },
+    jsonSchema: () => ({ anyOf: schemas.map((schema) => schema.jsonSchema()) }),
+  };
+}
+
+/** Attach documentation to a schema; shows up as "description" in JSON Schema. */
+export function withDescription<S extends Schema<unknown>>(schema: S, description: string): S {
+  return { ...schema, jsonSchema: () => ({ ...schema.jsonSchema(), description }) };
+}
+
+export function parse<T>(schema: Schema<T>, value: unknown): ParseResult<T> {
+  const issues: Issue[] = [];
+  schema.check(value, '', issues);
+  return issues.length === 0 ? { success: true, data: value as T } : { success: false, issues };
+}
+
+/** One-line summary of parse issues, for error messages and logs. */
+export function formatIssues(issues: Issue[]): string {
+  return issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+}
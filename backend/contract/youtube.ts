@@ -0,0 +1,87 @@
+/**
+ * Contract for the youtube-search Edge Function.
+ */
+
+import {
+  array,
+  integer,
+  literal,
+  nonEmptyString,
+  number,
+  object,
+  oneOf,
+  optional,
+  parse,
+  string,
+  union,
+  type Infer,
+  type ParseResult,
+} from './schema.ts';
+
+export const youTubeSearchRequestSchema = object({
+  query: nonEmptyString(),
+  /** YouTube caps search pages at 50. */
+  maxResults: optional(integer(1, 50)),
+  videoDuration: optional(oneOf('any', 'short', 'medium', 'long')),
+  /** nextPageToken from the previous page of the same search. */
+  pageToken: optional(nonEmptyString()),
+  /** The recognized song's title, matched against video titles when ranking; defaults to query. */
+  songTitle: optional(nonEmptyString()),
+});
+
+export const youTubeVideoSchema = object({
+  id: nonEmptyString(),
+  title: string(),
+  channelTitle: string(),
+  thumbnail: string(),
+  description: string(),
+  /** Ranking score; videos come best first. */
+  score: optional(number()),
+  /** Why the video got its score, e.g. "hookstep in title (+4)". */
+  reasons: optional(array(string())),
+});
+
+/**
+ * Where the results came from: the youtube_search_cache table (hit), YouTube with the
+ * cache refreshed (miss), an expired entry because YouTube failed (stale), or YouTube
+ * with no cache available (bypass).
+ */
+export const youTubeSearchCacheStatusSchema = oneOf('hit', 'miss', 'stale', 'bypass');
+
+export const youTubeSearchSuccessSchema = object({
+  success: literal(true),
+  videos: array(youTubeVideoSchema),
+  totalResults: number(),
+  /** Send as pageToken for the next page; absent on the last one. */
+  nextPageToken: optional(string()),
+  cache: optional(youTubeSearchCacheStatusSchema),
+});
+
+/** QUOTA_EXHAUSTED: every configured API key has used up its daily quota (sent with 429). */
+export const youTubeSearchErrorCodeSchema = oneOf('QUOTA_EXHAUSTED');
+
+export const youTubeSearchFailureSchema = object({
+  success: literal(false),
+  error: string(),
+  code: optional(youTubeSearchErrorCodeSchema),
+  /** Until the quota resets, same as the Retry-After header. */
+  retryAfterSeconds: optional(integer(0)),
+});
+
+export const youTubeSearchResponseSchema = union(youTubeSearchSuccessSchema, youTubeSearchFailureSchema);
+
+export type YouTubeSearchRequest = Infer<typeof youTubeSearchRequestSchema>;
+export type YouTubeVideo = Infer<typeof youTubeVideoSchema>;
+export type YouTubeSearchCacheStatus = Infer<typeof youTubeSearchCacheStatusSchema>;
+export type YouTubeSearchSuccess = Infer<typeof youTubeSearchSuccessSchema>;
+export type YouTubeSearchErrorCode = Infer<typeof youTubeSearchErrorCodeSchema>;
+export type YouTubeSearchFailure = Infer<typeof youTubeSearchFailureSchema>;
+export type YouTubeSearchResponse = Infer<typeof youTubeSearchResponseSchema>;
+
+export function parseYouTubeSearchRequest(value: unknown): ParseResult<YouTubeSearchRequest> {
+  return parse(youTubeSearchRequestSchema, value);
+}
+
+export function parseYouTubeSearchResponse(value: unknown): ParseResult<YouTubeSearchResponse> {
+  return parse(youTubeSearchResponseSchema, value);
+}
@@ -0,0 +1,228 @@
+/**
+ * Audio decoding for the recognize server.
+ * Converts an uploaded clip to 16 kHz mono s16le samples, the input node-shazam's
+ * signature generator expects. Uploads are decoded from memory: WAV in plain JS,
+ * everything else by piping the bytes through ffmpeg's stdin.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import fs from 'fs';
+import ffmpeg from '@ffmpeg-installer/ffmpeg';
+import { s16LEToSamplesArray } from 'node-shazam';
+import { parseWav } from './wav.js';
+import { scratchPath } from './uploads.js';
+
+/** Sample rate node-shazam signatures are generated at. */
+export const SAMPLE_RATE = 16000;
+
+/** Longest stretch of audio we decode per clip (same cap node-shazam uses). */
+const MAX_DECODE_SECONDS = 10;
+
+/** ffmpeg processes still running, so shutdown can kill what's left. */
+const running = new Set<ChildProcessWithoutNullStreams>();
+
+function spawnFfmpeg(args: string[]): ChildProcessWithoutNullStreams {
+  const proc = spawn(ffmpeg.path, args);
+  running.add(proc);
+  const forget = () => running.delete(proc);
+  proc.on('close', forget);
+  proc.on('error', forget);
+  return proc;
+}
+
+/** SIGKILL every ffmpeg process still running; returns how many there were. */
+export function killFfmpegProcesses(): number {
+  const count = running.size;
+  for (const proc of running) proc.kill('SIGKILL');
+  running.clear();
+  return count;
+}
+
+/** ffmpeg arguments decoding input (a path or pipe:0) to s16le mono on stdout. */
+function decodeArgs(input: string, maxSeconds: number | null): string[] {
+  return [
+    '-hide_banner',
+    '-loglevel', 'error',
+    '-i', input,
+    ...(maxSeconds === null ? [] : ['-t', String(maxSeconds)]),
+    '-f', 's16le',
+    '-acodec', 'pcm_s16le',
+    '-ar', String(SAMPLE_RATE),
+    '-ac', '1',
+    'pipe:1',
+  ];
+}
+
+/** Run ffmpeg with the given input, returning s16le mono samples from stdout. */
+function runFfmpeg(input: string | Buffer, maxSeconds: number | null): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const proc = spawnFfmpeg(decodeArgs(typeof input === 'string' ? input : 'pipe:0', maxSeconds));
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    proc.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    proc.on('error', reject);
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+        return;
+      }
+      resolve(s16LEToSamplesArray(Buffer.concat(chunks)));
+    });
+
+    if (typeof input !== 'string') {
+      // ffmpeg stops reading once it has maxSeconds of audio; the exit code tells us how it went
+      proc.stdin.on('error', () => {});
+      proc.stdin.end(input);
+    }
+  });
+}
+
+/**
+ * Decode a whole file in chunks, for recordings too long to hold as one sample array.
+ * ffmpeg is paused by backpressure while the consumer works, and killed if the
+ * consumer stops early.
+ */
+export async function* decodeFileChunks(filePath: string): AsyncGenerator<number[]> {
+  const proc = spawnFfmpeg(decodeArgs(filePath, null));
+  let stderr = '';
+  proc.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    proc.on('error', reject);
+    proc.on('close', resolve);
+  });
+
+  let leftover: Buffer | null = null;
+  try {
+    for await (const chunk of proc.stdout as AsyncIterable<Buffer>) {
+      // Chunks can split a 16-bit sample; carry the odd byte over
+      const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const whole = data.length & ~1;
+      leftover = whole < data.length ? data.subarray(whole) : null;
+      yield s16LEToSamplesArray(data.subarray(0, whole));
+    }
+    const code = await exited;
+    if (code !== 0) throw new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`);
+  } finally {
+    if (proc.exitCode === null) proc.kill('SIGKILL');
+  }
+}
+
+/** Duration from ffmpeg's input summary, or null when the container doesn't state one (e.g. MediaRecorder WebM). */
+export function probeDurationSeconds(filePath: string): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    // Without an output ffmpeg prints the input summary and exits with an error
+    const proc = spawnFfmpeg(['-hide_banner', '-i', filePath]);
+    let stderr = '';
+    proc.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    proc.on('error', reject);
+    proc.on('close', () => {
+      const match = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(stderr);
+      if (!match) {
+        resolve(null);
+        return;
+      }
+      const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+      resolve(Math.round(seconds * 1000) / 1000);
+    });
+  });
+}
+
+/** Version reported by `ffmpeg -version`, e.g. "5.1.6-0+deb12u1". */
+export function ffmpegVersion(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawnFfmpeg(['-version']);
+    let stdout = '';
+    proc.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    proc.on('error', reject);
+    proc.on('close', (code) => {
+      if (code === 0) resolve(/^ffmpeg version (\S+)/.exec(stdout)?.[1] ?? 'unknown');
+      else reject(new Error(`ffmpeg -version exited with code ${code}`));
+    });
+  });
+}
+
+/** Half-width of the resampling filter, in output samples. */
+const RESAMPLE_HALF_WIDTH = 8;
+
+/**
+ * Resample to 16 kHz with a Hann-windowed sinc, low-passed at the output Nyquist
+ * frequency so downsampling doesn't alias (matches what ffmpeg produces closely enough
+ * for fingerprints to agree).
+ */
+function resample(input: Float32Array, inputRate: number, maxSeconds: number | null): number[] {
+  const ratio = inputRate / SAMPLE_RATE;
+  let length = Math.floor(input.length / ratio);
+  if (maxSeconds !== null) length = Math.min(length, maxSeconds * SAMPLE_RATE);
+
+  // Cutoff relative to the input rate; only narrows the band when downsampling
+  const cutoff = Math.min(1, 1 / ratio);
+  const halfTaps = Math.ceil(RESAMPLE_HALF_WIDTH / cutoff);
+  const output = new Array<number>(length);
+
+  for (let i = 0; i < length; i++) {
+    const center = i * ratio;
+    const first = Math.max(0, Math.ceil(center - halfTaps));
+    const last = Math.min(input.length - 1, Math.floor(center + halfTaps));
+    let sum = 0;
+    let weightSum = 0;
+    for (let j = first; j <= last; j++) {
+      const x = (j - center) * cutoff;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * (j - center)) / (halfTaps + 1));
+      const weight = sinc * window;
+      sum += input[j] * weight;
+      weightSum += weight;
+    }
+    const value = weightSum === 0 ? 0 : sum / weightSum;
+    output[i] = Math.max(-32768, Math.min(32767, Math.round(value * 32768)));
+  }
+  return output;
+}
+
+/** Decode a WAV in plain JS, or null if its format needs ffmpeg. */
+function decodeWav(buffer: Buffer, maxSeconds: number | null): number[] | null {
+  const wav = parseWav(buffer);
+  return wav && resample(wav.samples, wav.sampleRate, maxSeconds);
+}
+
+/** MP4/M4A files start with an "ftyp" box. */
+function isMp4(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.toString('ascii', 4, 8) === 'ftyp';
+}
+
+/**
+ * Decode audio to PCM samples.
+ * Pass a file path (e.g. reference songs) or the uploaded bytes.
+ * Pass maxSeconds = null to decode everything.
+ */
+export async function decodeToSamples(input: string | Buffer, maxSeconds: number | null = MAX_DECODE_SECONDS): Promise<number[]> {
+  if (typeof input === 'string') return runFfmpeg(input, maxSeconds);
+
+  const wav = decodeWav(input, maxSeconds);
+  if (wav) return wav;
+
+  if (!isMp4(input)) return runFfmpeg(input, maxSeconds);
+
+  // MP4 with its index (moov) at the end can't be read from a pipe (ffmpeg fails or
+  // decodes nothing); fall back to a scratch file for those
+  const piped = await runFfmpeg(input, maxSeconds).catch(() => [] as number[]);
+  if (piped.length > 0) return piped;
+
+  const filePath = scratchPath('.m4a');
+  try {
+    fs.writeFileSync(filePath, input);
+    return await runFfmpeg(filePath, maxSeconds);
+  } finally {
+    fs.rmSync(filePath, { force: true });
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Batch recognition of long recordings (DJ sets) as background jobs.
+ * The upload is decoded as a stream and cut into overlapping windows; each window goes
+ * through the provider chain, and consecutive windows matching the same track are merged
+ * into timestamped segments. Windows share the work pool with uploads and streams. Jobs
+ * run one at a time and live in the memory of this instance, so their status requests have
+ * to reach it (one instance, or session affinity).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { decodeFileChunks, probeDurationSeconds, SAMPLE_RATE } from './audio.js';
+import { RecognitionCache } from './cache.js';
+import { Recognizer, type CachedRecognition } from './recognizer.js';
+import type { Preprocessor } from './preprocess.js';
+import type { WorkPool } from './work-pool.js';
+import type { ProviderName, RecognitionProvider, RecognizedTrack } from './providers/index.js';
+import type { BatchJobStatus, BatchSegment } from '../contract/index.js';
+import { currentRequestId, log, withRequestId } from './logger.js';
+
+export type { BatchJobStatus, BatchSegment };
+
+export interface BatchOptions {
+  /** Audio recognized per window (node-shazam uses at most ~10 s). */
+  windowSeconds: number;
+  /** Distance between window starts; less than windowSeconds so windows overlap. */
+  hopSeconds: number;
+  /** Jobs waiting to run before new submissions are refused. */
+  maxQueued: number;
+  /** How long finished jobs (and their results) are kept. */
+  jobTtlMs: number;
+}
+
+export interface WindowResult {
+  startSeconds: number;
+  endSeconds: number;
+  match: { track: RecognizedTrack; provider: ProviderName; offsetSeconds: number | null } | null;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  fileName: string;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  /** Recording length, when the container states it. */
+  durationSeconds: number | null;
+  processedSeconds: number;
+  windowsDone: number;
+  windowsFailed: number;
+  windows: WindowResult[];
+  error: string | null;
+  /** Request that submitted the job; the job logs under its id. */
+  requestId: string | undefined;
+}
+
+export interface BatchProgress {
+  status: BatchJobStatus;
+  processedSeconds: number;
+  durationSeconds: number | null;
+  windowsDone: number;
+  windowsTotal: number | null;
+  /** 0-1, or null while the duration is unknown. */
+  progress: number | null;
+}
+
+/** A trailing window shorter than this is not worth recognizing. */
+const MIN_TAIL_SECONDS = 3;
+/** Unmatched or different windows tolerated inside a segment (transitions, talk-over). */
+const MAX_GAP_WINDOWS = 1;
+
+/** Merge consecutive windows matching the same track into segments. */
+export function mergeSegments(windows: WindowResult[], maxGapWindows = MAX_GAP_WINDOWS): BatchSegment[] {
+  const segments: BatchSegment[] = [];
+  let current: BatchSegment | null = null;
+  let lastIndex = -1;
+
+  windows.forEach((window, index) => {
+    if (!window.match) return;
+    if (current && current.track.key === window.match.track.key && index - lastIndex - 1 <= maxGapWindows) {
+      current.endSeconds = window.endSeconds;
+      current.windows++;
+    } else {
+      current = {
+        track: window.match.track,
+        provider: window.match.provider,
+        startSeconds: window.startSeconds,
+        endSeconds: window.endSeconds,
+        offsetSeconds: window.match.offsetSeconds,
+        windows: 1,
+      };
+      segments.push(current);
+    }
+    lastIndex = index;
+  });
+
+  return segments;
+}
+
+export class BatchQueue {
+  private jobs = new Map<string, BatchJob>();
+  private files = new Map<string, string>();
+  private pending: BatchJob[] = [];
+  private running = false;
+
+  constructor(
+    private providers: RecognitionProvider[],
+    private preprocessor: Preprocessor,
+    private workPool: WorkPool,
+    private options: BatchOptions
+  ) {}
+
+  /** Queue a job for an uploaded file; the queue owns (and deletes) the file. Null when the queue is full. */
+  submit(filePath: string, fileName: string): BatchJob | null {
+    this.prune();
+    if (this.pending.length >= this.options.maxQueued) {
+      fs.rmSync(filePath, { force: true });
+      return null;
+    }
+
+    const job: BatchJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      fileName,
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      durationSeconds: null,
+      processedSeconds: 0,
+      windowsDone: 0,
+      windowsFailed: 0,
+      windows: [],
+      error: null,
+      requestId: currentRequestId(),
+    };
+    this.jobs.set(job.id, job);
+    this.files.set(job.id, filePath);
+    this.pending.push(job);
+    void this.runNext();
+    return job;
+  }
+
+  get(id: string): BatchJob | null {
+    this.prune();
+    return this.jobs.get(id) ?? null;
+  }
+
+  /** Cancel a queued or running job; false when it already finished. */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return false;
+    // A running job notices at its next window and stops ffmpeg
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter((queued) => queued !== job);
+      this.finish(job, 'cancelled');
+    } else {
+      job.status = 'cancelled';
+    }
+    return true;
+  }
+
+  /** Cancel every queued and running job (server shutdown); returns how many. */
+  cancelAll(): number {
+    let cancelled = 0;
+    for (const job of this.jobs.values()) {
+      if (this.cancel(job.id)) cancelled++;
+    }
+    return cancelled;
+  }
+
+  progress(job: BatchJob): BatchProgress {
+    const { windowSeconds, hopSeconds } = this.options;
+    let windowsTotal: number | null = null;
+    if (job.durationSeconds !== null) {
+      // Full windows, plus a shorter one over whatever the last full window left uncovered
+      const full = job.durationSeconds >= windowSeconds ? Math.floor((job.durationSeconds - windowSeconds) / hopSeconds) + 1 : 0;
+      const coveredUntil = full === 0 ? 0 : (full - 1) * hopSeconds + windowSeconds;
+      const tail = job.durationSeconds - full * hopSeconds;
+      windowsTotal = full + (job.durationSeconds > coveredUntil && tail >= MIN_TAIL_SECONDS ? 1 : 0);
+    }
+    const finished = job.status === 'completed';
+    return {
+      status: job.status,
+      processedSeconds: job.processedSeconds,
+      durationSeconds: job.durationSeconds,
+      windowsDone: job.windowsDone,
+      windowsTotal: finished ? job.windowsDone : windowsTotal,
+      progress: finished ? 1 : job.durationSeconds ? Math.min(1, job.processedSeconds / job.durationSeconds) : null,
+    };
+  }
+
+  private async runNext() {
+    if (this.running) return;
+    const job = this.pending.shift();
+    if (!job) return;
+    // Otherwise the job would log under whichever request started the previous one
+    await withRequestId(job.requestId ?? job.id, () => this.run(job));
+  }
+
+  private async run(job: BatchJob) {
+    this.running = true;
+    job.status = 'running';
+    job.startedAt = Date.now();
+    try {
+      await this.process(job);
+      if (job.status === 'running') this.finish(job, 'completed');
+      else this.finish(job, 'cancelled');
+    } catch (err) {
+      if (job.status !== 'running') {
+        // Cancelled while running (shutdown kills its ffmpeg); not a failure
+        this.finish(job, 'cancelled');
+        return;
+      }
+      log.error('batch job failed', { jobId: job.id, err });
+      job.error = err instanceof Error ? err.message : String(err);
+      this.finish(job, 'failed');
+    } finally {
+      this.running = false;
+      void this.runNext();
+    }
+  }
+
+  private async process(job: BatchJob) {
+    const filePath = this.files.get(job.id)!;
+    job.durationSeconds = await probeDurationSeconds(filePath);
+
+    // Own cache per job, so a recording's windows neither fill nor hit the live cache
+    const recognizer = new Recognizer(
+      this.providers,
+      new RecognitionCache<CachedRecognition>({ ttlMs: this.options.jobTtlMs, maxEntries: 50, minSimilarity: 0.35 })
+    );
+    const windowSamples = Math.round(this.options.windowSeconds * SAMPLE_RATE);
+    const hopSamples = Math.round(this.options.hopSeconds * SAMPLE_RATE);
+    let buffer: number[] = [];
+    let bufferStart = 0;
+
+    for await (const chunk of decodeFileChunks(filePath)) {
+      buffer = buffer.concat(chunk);
+      while (buffer.length >= windowSamples) {
+        if (job.status !== 'running') return;
+        await this.recognizeWindow(job, recognizer, buffer.slice(0, windowSamples), bufferStart);
+        buffer = buffer.slice(hopSamples);
+        bufferStart += hopSamples;
+      }
+      if (job.status !== 'running') return;
+    }
+
+    // The last window only covers what's left after the final hop
+    const coveredUntil = job.windows.length === 0 ? 0 : bufferStart - hopSamples + windowSamples;
+    if (bufferStart + buffer.length > coveredUntil && buffer.length >= MIN_TAIL_SECONDS * SAMPLE_RATE) {
+      await this.recognizeWindow(job, recognizer, buffer, bufferStart);
+    }
+  }
+
+  private async recognizeWindow(job: BatchJob, recognizer: Recognizer, samples: number[], start: number) {
+    const startSeconds = start / SAMPLE_RATE;
+    const endSeconds = (start + samples.length) / SAMPLE_RATE;
+    let match: WindowResult['match'] = null;
+    // Waits in line with uploads and stream windows; when the server is busy the window is
+    // skipped like a failed one, which the segment merge bridges
+    const release = await this.workPool.acquire();
+    if (!release) {
+      log.warn('batch window shed', { jobId: job.id, startSeconds });
+      job.windowsFailed++;
+    } else {
+      try {
+        const result = await recognizer.recognize(this.preprocessor.run(samples).samples, startSeconds * 1000);
+        if (result) {
+          match = { track: result.match.track, provider: result.match.provider, offsetSeconds: result.offsetSeconds };
+        }
+      } catch (err) {
+        // One failed window (provider hiccup) shouldn't fail an hour-long job
+        log.warn('batch window failed', { jobId: job.id, startSeconds, err });
+        job.windowsFailed++;
+      } finally {
+        release();
+      }
+    }
+    job.windows.push({ startSeconds, endSeconds, match });
+    job.windowsDone++;
+    job.processedSeconds = endSeconds;
+  }
+
+  private finish(job: BatchJob, status: BatchJobStatus) {
+    job.status = status;
+    job.finishedAt = Date.now();
+    log.info('batch job finished', {
+      jobId: job.id,
+      outcome: status,
+      durationMs: job.startedAt === null ? 0 : job.finishedAt - job.startedAt,
+      windowsDone: job.windowsDone,
+      windowsFailed: job.windowsFailed,
+    });
+    const filePath = this.files.get(job.id);
+    if (filePath) fs.rmSync(filePath, { force: true });
+    this.files.delete(job.id);
+  }
+
+  /** Forget jobs that finished more than jobTtlMs ago. */
+  private prune() {
+    const cutoff = Date.now() - this.options.jobTtlMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt !== null && job.finishedAt < cutoff) this.jobs.delete(id);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * In-process cache of recent recognitions, keyed by audio fingerprint.
+ * The same song playing for minutes produces near-identical clips; a lookup that is
+ * similar enough to a cached fingerprint returns the cached track without calling upstream.
+ */
+
+import { hashSimilarity } from './fingerprint.js';
+
+export interface RecognitionCacheOptions {
+  /** How long an entry stays valid after it was stored or last hit. */
+  ttlMs: number;
+  /** Max entries kept; the least recently used entry is evicted first. */
+  maxEntries: number;
+  /** Minimum Jaccard similarity between fingerprints to count as a hit. */
+  minSimilarity: number;
+}
+
+export interface RecognitionCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  hitRate: number;
+}
+
+interface CacheEntry<T> {
+  hashes: Set<number>;
+  value: T;
+  expiresAt: number;
+}
+
+export class RecognitionCache<T> {
+  private entries = new Map<number, CacheEntry<T>>();
+  private nextId = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private options: RecognitionCacheOptions) {}
+
+  /** Return the value of the most similar live entry, or null on a miss. */
+  lookup(hashes: number[]): T | null {
+    const now = Date.now();
+    const probe = new Set(hashes);
+    let bestId: number | null = null;
+    let bestScore = 0;
+
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(id);
+        continue;
+      }
+      const score = hashSimilarity(probe, entry.hashes);
+      if (score >= this.options.minSimilarity && score > bestScore) {
+        bestId = id;
+        bestScore = score;
+      }
+    }
+
+    if (bestId === null) {
+      this.misses++;
+      return null;
+    }
+
+    // Re-insert so Map order stays least-recently-used first
+    const entry = this.entries.get(bestId)!;
+    this.entries.delete(bestId);
+    entry.expiresAt = now + this.options.ttlMs;
+    this.entries.set(bestId, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  store(hashes: number[], value: T): void {
+    if (hashes.length === 0) return;
+    this.entries.set(this.nextId++, {
+      hashes: new Set(hashes),
+      value,
+      expiresAt: Date.now() + this.options.ttlMs,
+    });
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as number;
+      this.entries.delete(oldest);
+    }
+  }
+
+  stats(): RecognitionCacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      hitRate: total === 0 ? 0 : this.hits / total,
+    };
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Signed client tokens for the recognize server.
+ * The recognize-token Edge Function issues short-lived HS256 JWTs with a secret shared
+ * with this server (RECOGNIZE_TOKEN_SECRET). Requests carry them as `Authorization: Bearer`
+ * (or `?token=` on the WebSocket, where browsers can't set headers).
+ */
+
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+
+export interface ClientTokenClaims {
+  /** Client id the Edge Function issued and stored; used as the per-client rate limit key. */
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+}
+
+const AUDIENCE = 'recognize';
+/** Tolerated clock difference between the Edge Function and this server. */
+const CLOCK_SKEW_SECONDS = 30;
+
+function hmac(secret: string, data: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(data).digest();
+}
+
+/** Issue a token (the Edge Function does this in production; handy for local testing). */
+export function signClientToken(secret: string, sub: string, ttlSeconds: number): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const claims: ClientTokenClaims = { sub, aud: AUDIENCE, iat, exp: iat + ttlSeconds };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${header}.${payload}.${hmac(secret, `${header}.${payload}`).toString('base64url')}`;
+}
+
+/** Claims of a valid, unexpired token, or null. */
+export function verifyClientToken(token: string, secret: string): ClientTokenClaims | null {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (!header || !payload || !signature || rest.length > 0) return null;
+
+  const expected = hmac(secret, `${header}.${payload}`);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as ClientTokenClaims;
+    const now = Math.floor(Date.now() / 1000);
+    if (alg !== 'HS256' || claims.aud !== AUDIENCE || typeof claims.sub !== 'string') return null;
+    if (!(claims.exp + CLOCK_SKEW_SECONDS > now) || claims.iat - CLOCK_SKEW_SECONDS > now) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+export interface ClientTokenOptions {
+  /** Shared with the recognize-token Edge Function; tokens are ignored when unset. */
+  secret: string | undefined;
+  /** Reject requests without a valid token. */
+  required: boolean;
+}
+
+export type TokenCheck = { ok: true; clientId: string | null } | { ok: false; error: string };
+
+/** Verify the token on a request (HTTP header or WebSocket query param). */
+export function checkClientToken(options: ClientTokenOptions, token: string | null | undefined): TokenCheck {
+  const claims = token && options.secret ? verifyClientToken(token, options.secret) : null;
+  if (claims) return { ok: true, clientId: claims.sub };
+  if (!options.required) return { ok: true, clientId: null };
+  return { ok: false, error: token ? 'Invalid or expired client token' : 'Client token required' };
+}
+
+export function bearerToken(req: IncomingMessage): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Express middleware answering 401 when a required token is missing or invalid.
+ * The verified client id goes to `res.locals.clientId` for rate limiting.
+ */
+export function requireClientToken(options: ClientTokenOptions) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const check = checkClientToken(options, bearerToken(req));
+    if (!check.ok) {
+      res.status(401).json({ success: false, error: check.error });
+      return;
+    }
+    res.locals.clientId = check.clientId;
+    next();
+  };
+}
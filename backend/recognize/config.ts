@@ -0,0 +1,262 @@
+/**
+ * Recognize server configuration, read from the environment once at startup.
+ * Every variable is parsed and checked here; a bad value stops the server before it
+ * listens, with one line per problem, rather than surfacing as NaN limits later.
+ */
+
+import type { Issue, ParseResult } from '../contract/index.js';
+import type { ProviderName } from './providers/types.js';
+import { PREPROCESS_STEPS, type PreprocessOptions, type PreprocessStep } from './preprocess.js';
+import { LOG_LEVELS, type LogLevel } from './logger.js';
+import { LOCALE_PATTERN, MAX_METADATA_LOCALES } from './locales.js';
+
+const PROVIDER_NAMES: ProviderName[] = ['shazam', 'local', 'mock'];
+const MB = 1024 * 1024;
+
+export interface PreprocessConfig {
+  steps: PreprocessStep[];
+  options: PreprocessOptions;
+}
+
+export interface RecognizeConfig {
+  port: number;
+  logLevel: LogLevel;
+  /** Tried in order until one matches. */
+  providers: ProviderName[];
+  /** A provider slower than this counts as failed and the next one is tried; 0 waits forever. */
+  providerTimeoutMs: number;
+  /** Language of track metadata from Shazam, unless a request asks for another. */
+  locale: string;
+  /** Also fetched for every match, as titleVariants, unless a request names its own. */
+  metadataLocales: string[];
+  localFingerprintDb: string | undefined;
+  upload: {
+    maxBytes: number;
+    /** Smaller uploads can't hold enough audio to fingerprint. */
+    minBytes: number;
+    /** Accepted by file name; any audio/* content type is accepted too. */
+    allowedExtensions: string[];
+  };
+  preprocess: PreprocessConfig;
+  cache: { ttlMs: number; maxEntries: number; minSimilarity: number };
+  work: { concurrency: number; queueTimeoutMs: number; maxQueued: number };
+  rateLimit: { windowMs: number; maxPerIp: number; maxPerClient: number; trustedProxyHops: number };
+  /** Streaming connections are closed after this long, and the client reconnects. */
+  streamMaxSessionMs: number;
+  clientToken: { secret: string | undefined; required: boolean };
+  /** Empty allows any origin. */
+  corsOrigins: string[];
+  readiness: { minFreeBytes: number; cacheMs: number };
+  batch: { maxUploadBytes: number; windowSeconds: number; hopSeconds: number; maxQueued: number; jobTtlMs: number };
+  shutdownTimeoutMs: number;
+}
+
+/** Reads variables with defaults, collecting every problem instead of stopping at the first. */
+class EnvReader {
+  readonly issues: Issue[] = [];
+
+  constructor(private env: NodeJS.ProcessEnv) {}
+
+  private raw(name: string): string | undefined {
+    const value = this.env[name]?.trim();
+    return value === '' ? undefined : value;
+  }
+
+  string(name: string, fallback: string): string;
+  string(name: string): string | undefined;
+  string(name: string, fallback?: string): string | undefined {
+    return this.raw(name) ?? fallback;
+  }
+
+  number(name: string, fallback: number, { min = -Infinity, max = Infinity, integer = false } = {}): number {
+    const raw = this.raw(name);
+    if (raw === undefined) return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      this.issues.push({ path: name, message: `expected ${integer ? 'an integer' : 'a number'}, got "${raw}"` });
+    } else if (value < min || value > max) {
+      const range = max === Infinity ? `at least ${min}` : min === -Infinity ? `at most ${max}` : `between ${min} and ${max}`;
+      this.issues.push({ path: name, message: `must be ${range}, got ${value}` });
+    } else {
+      return value;
+    }
+    return fallback;
+  }
+
+  integer(name: string, fallback: number, range: { min?: number; max?: number } = {}): number {
+    return this.number(name, fallback, { ...range, integer: true });
+  }
+
+  /** A size given in MB, as whole bytes; multer ignores a fractional file size limit. */
+  megabytes(name: string, fallback: number, range: { min?: number; max?: number } = {}): number {
+    return Math.round(this.number(name, fallback, range) * MB);
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const raw = this.raw(name);
+    if (raw === undefined) return fallback;
+    if (raw === 'true' || raw === 'false') return raw === 'true';
+    this.issues.push({ path: name, message: `expected true or false, got "${raw}"` });
+    return fallback;
+  }
+
+  /** Comma-separated; set but empty means an empty list, not the fallback. */
+  list(name: string, fallback: string): string[] {
+    return (this.env[name] ?? fallback).split(',').map((item) => item.trim()).filter(Boolean);
+  }
+
+  /** Comma-separated values from choices, in the given order. */
+  choices<T extends string>(name: string, fallback: string, choices: readonly T[]): T[] {
+    const values = this.list(name, fallback);
+    const unknown = values.filter((value) => !choices.includes(value as T));
+    if (unknown.length > 0) {
+      this.issues.push({ path: name, message: `unknown ${unknown.map((value) => `"${value}"`).join(', ')}; expected ${choices.join(', ')}` });
+    }
+    return values.filter((value): value is T => choices.includes(value as T));
+  }
+
+  oneOf<T extends string>(name: string, fallback: T, choices: readonly T[]): T {
+    const raw = this.raw(name);
+    if (raw === undefined) return fallback;
+    if (choices.includes(raw as T)) return raw as T;
+    this.issues.push({ path: name, message: `expected one of ${choices.join(', ')}, got "${raw}"` });
+    return fallback;
+  }
+
+  check(condition: boolean, path: string, message: string) {
+    if (!condition) this.issues.push({ path, message });
+  }
+}
+
+function readPreprocess(env: EnvReader): PreprocessConfig {
+  return {
+    // Empty disables preprocessing; diagnostics are still measured
+    steps: env.choices('RECOGNIZE_PREPROCESS', 'highpass,normalize', PREPROCESS_STEPS),
+    options: {
+      highpassHz: env.number('PREPROCESS_HIGHPASS_HZ', 120, { min: 1, max: 8000 }),
+      lowpassHz: env.number('PREPROCESS_LOWPASS_HZ', 5500, { min: 1, max: 8000 }),
+      gateDbfs: env.number('PREPROCESS_GATE_DBFS', -60, { max: 0 }),
+      targetDbfs: env.number('PREPROCESS_TARGET_DBFS', -20, { max: 0 }),
+    },
+  };
+}
+
+/**
+ * Preprocessing settings alone. Fingerprint ingestion reads them too, so reference
+ * tracks are processed like the clips matched against them.
+ */
+export function parsePreprocessConfig(env: NodeJS.ProcessEnv = process.env): ParseResult<PreprocessConfig> {
+  const reader = new EnvReader(env);
+  const data = readPreprocess(reader);
+  return reader.issues.length > 0 ? { success: false, issues: reader.issues } : { success: true, data };
+}
+
+export function parseConfig(env: NodeJS.ProcessEnv = process.env): ParseResult<RecognizeConfig> {
+  const reader = new EnvReader(env);
+  const windowSeconds = reader.number('BATCH_WINDOW_SECONDS', 10, { min: 3, max: 10 });
+
+  const config: RecognizeConfig = {
+    port: reader.integer('PORT', 3456, { min: 0, max: 65535 }),
+    logLevel: reader.oneOf('LOG_LEVEL', 'info', LOG_LEVELS),
+    providers: reader.choices('RECOGNIZE_PROVIDERS', 'shazam,local', PROVIDER_NAMES),
+    providerTimeoutMs: reader.integer('RECOGNIZE_PROVIDER_TIMEOUT_MS', 10 * 1000, { min: 0 }),
+    locale: reader.string('RECOGNIZE_LOCALE', 'en-US'),
+    metadataLocales: reader.list('RECOGNIZE_METADATA_LOCALES', ''),
+    localFingerprintDb: reader.string('LOCAL_FINGERPRINT_DB'),
+    upload: {
+      maxBytes: reader.megabytes('RECOGNIZE_MAX_UPLOAD_MB', 10, { min: 0.1, max: 100 }),
+      minBytes: reader.integer('RECOGNIZE_MIN_UPLOAD_BYTES', 1000, { min: 0 }),
+      allowedExtensions: reader.list('RECOGNIZE_ALLOWED_EXTENSIONS', 'webm,wav,mp3,ogg,m4a').map((ext) =>
+        ext.replace(/^\./, '').toLowerCase()
+      ),
+    },
+    preprocess: readPreprocess(reader),
+    cache: {
+      ttlMs: reader.integer('RECOGNIZE_CACHE_TTL_MS', 10 * 60 * 1000, { min: 0 }),
+      maxEntries: reader.integer('RECOGNIZE_CACHE_MAX_ENTRIES', 500, { min: 0 }),
+      minSimilarity: reader.number('RECOGNIZE_CACHE_MIN_SIMILARITY', 0.35, { min: 0, max: 1 }),
+    },
+    work: {
+      concurrency: reader.integer('RECOGNIZE_CONCURRENCY', 4, { min: 1 }),
+      queueTimeoutMs: reader.integer('RECOGNIZE_QUEUE_TIMEOUT_MS', 5000, { min: 0 }),
+      maxQueued: reader.integer('RECOGNIZE_MAX_QUEUED', 50, { min: 0 }),
+    },
+    rateLimit: {
+      windowMs: reader.integer('RATE_LIMIT_WINDOW_MS', 60 * 1000, { min: 1000 }),
+      maxPerIp: reader.integer('RATE_LIMIT_MAX_PER_IP', 120, { min: 0 }),
+      maxPerClient: reader.integer('RATE_LIMIT_MAX_PER_CLIENT', 30, { min: 0 }),
+      trustedProxyHops: reader.integer('TRUSTED_PROXY_HOPS', 1, { min: 0 }),
+    },
+    streamMaxSessionMs: reader.integer('STREAM_MAX_SESSION_MS', 30 * 60 * 1000, { min: 10 * 1000 }),
+    clientToken: {
+      secret: reader.string('RECOGNIZE_TOKEN_SECRET'),
+      required: reader.boolean('RECOGNIZE_REQUIRE_TOKEN', false),
+    },
+    corsOrigins: reader.list('CORS_ORIGINS', ''),
+    readiness: {
+      minFreeBytes: reader.integer('READY_MIN_FREE_BYTES', 100 * MB, { min: 0 }),
+      cacheMs: reader.integer('READY_CACHE_MS', 10 * 1000, { min: 0 }),
+    },
+    batch: {
+      maxUploadBytes: reader.megabytes('BATCH_MAX_UPLOAD_MB', 100, { min: 1 }),
+      windowSeconds,
+      hopSeconds: reader.number('BATCH_HOP_SECONDS', 6, { min: 1 }),
+      maxQueued: reader.integer('BATCH_MAX_QUEUED', 5, { min: 0 }),
+      jobTtlMs: reader.integer('BATCH_JOB_TTL_MS', 60 * 60 * 1000, { min: 0 }),
+    },
+    shutdownTimeoutMs: reader.integer('SHUTDOWN_TIMEOUT_MS', 8000, { min: 0 }),
+  };
+
+  reader.check(config.providers.length > 0, 'RECOGNIZE_PROVIDERS', 'needs at least one provider');
+  reader.check(
+    LOCALE_PATTERN.test(config.locale),
+    'RECOGNIZE_LOCALE',
+    `expected a language tag like en-US or hi-IN, got "${config.locale}"`
+  );
+  const badLocales = config.metadataLocales.filter((locale) => !LOCALE_PATTERN.test(locale));
+  reader.check(
+    badLocales.length === 0,
+    'RECOGNIZE_METADATA_LOCALES',
+    `expected language tags like hi-IN, got ${badLocales.map((locale) => `"${locale}"`).join(', ')}`
+  );
+  reader.check(
+    config.metadataLocales.length <= MAX_METADATA_LOCALES,
+    'RECOGNIZE_METADATA_LOCALES',
+    `at most ${MAX_METADATA_LOCALES} locales`
+  );
+  reader.check(
+    config.upload.allowedExtensions.every((ext) => /^[a-z0-9]+$/.test(ext)),
+    'RECOGNIZE_ALLOWED_EXTENSIONS',
+    'expected extensions like webm,wav,mp3'
+  );
+  reader.check(
+    config.upload.minBytes < config.upload.maxBytes,
+    'RECOGNIZE_MIN_UPLOAD_BYTES',
+    'must be smaller than RECOGNIZE_MAX_UPLOAD_MB'
+  );
+  reader.check(
+    !config.clientToken.required || config.clientToken.secret !== undefined,
+    'RECOGNIZE_REQUIRE_TOKEN',
+    'true needs RECOGNIZE_TOKEN_SECRET'
+  );
+  reader.check(
+    config.corsOrigins.every((origin) => /^[a-z][a-z0-9+.-]*:\/\/[^/]+$/i.test(origin)),
+    'CORS_ORIGINS',
+    'expected origins like https://app.example or http://localhost:8080, without a path or trailing slash'
+  );
+  // Overlapping windows; a hop as long as the window leaves gaps
+  reader.check(config.batch.hopSeconds < windowSeconds, 'BATCH_HOP_SECONDS', 'must be less than BATCH_WINDOW_SECONDS');
+
+  return reader.issues.length > 0 ? { success: false, issues: reader.issues } : { success: true, data: config };
+}
+
+/** One line per problem, e.g. "RECOGNIZE_CONCURRENCY: must be at least 1, got 0". */
+export function describeIssues(issues: Issue[]): string[] {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`);
+}
+
+/** The config as logged at startup; the token secret is only reported as set or not. */
+export function describeConfig(config: RecognizeConfig): Record<string, unknown> {
+  const { secret, ...clientToken } = config.clientToken;
+  return { ...config, clientToken: { ...clientToken, secretSet: secret !== undefined } };
+}
@@ -0,0 +1,165 @@
+/**
+ * Self-hosted fingerprint database for the local recognition provider.
+ * Reference songs are reduced to landmark hashes (see ../fingerprint.ts) and kept in an
+ * inverted index. A clip matches a song when many of its hashes line up at one consistent
+ * time offset, which also tells us where in the song the clip was captured.
+ *
+ * On-disk format: uint32 header length, JSON header (tracks), then one (hash, time) uint32
+ * pair per landmark, track by track in header order.
+ */
+
+import fs from 'fs';
+import { SECONDS_PER_PASS, type Landmark } from '../fingerprint.js';
+import type { RecognizedTrack } from '../providers/types.js';
+
+const FORMAT_VERSION = 1;
+
+export interface IndexedTrackInfo {
+  track: RecognizedTrack;
+  /** File the landmarks were computed from. */
+  source: string;
+  landmarkCount: number;
+}
+
+interface IndexHeader {
+  version: number;
+  tracks: IndexedTrackInfo[];
+}
+
+export interface FingerprintMatch {
+  track: RecognizedTrack;
+  /** Share of the clip's landmarks that agree on the winning offset (0-1). */
+  score: number;
+  /** Landmarks that agree on the winning offset. */
+  votes: number;
+  /** Where the clip starts within the reference song, in seconds. */
+  offsetSeconds: number;
+}
+
+export interface MatchOptions {
+  /** Minimum aligned landmarks for a match. */
+  minVotes: number;
+  /** Minimum score for a match. */
+  minScore: number;
+}
+
+const DEFAULT_MATCH_OPTIONS: MatchOptions = { minVotes: 12, minScore: 0.02 };
+
+export class FingerprintIndex {
+  private tracks: IndexedTrackInfo[] = [];
+  private landmarks: Landmark[][] = [];
+  /** hash -> flat list of (track index, time) pairs */
+  private postings = new Map<number, number[]>();
+
+  get size(): number {
+    return this.tracks.length;
+  }
+
+  listTracks(): IndexedTrackInfo[] {
+    return [...this.tracks];
+  }
+
+  /** Add a reference song, replacing any track with the same key. */
+  addTrack(track: RecognizedTrack, landmarks: Landmark[], source: string): void {
+    const existing = this.tracks.findIndex((t) => t.track.key === track.key);
+    if (existing !== -1) {
+      this.tracks.splice(existing, 1);
+      this.landmarks.splice(existing, 1);
+    }
+    this.tracks.push({ track, source, landmarkCount: landmarks.length });
+    this.landmarks.push(landmarks);
+    this.rebuildPostings();
+  }
+
+  /** Find the song whose landmarks best align with the clip's. */
+  match(clip: Landmark[], options: Partial<MatchOptions> = {}): FingerprintMatch | null {
+    const { minVotes, minScore } = { ...DEFAULT_MATCH_OPTIONS, ...options };
+    if (clip.length === 0) return null;
+
+    // Votes per (track, reference time - clip time); the true offset collects most of them
+    const votes = new Map<string, number>();
+    let bestKey: string | null = null;
+    let bestVotes = 0;
+    for (const { hash, time } of clip) {
+      const posting = this.postings.get(hash);
+      if (!posting) continue;
+      for (let i = 0; i < posting.length; i += 2) {
+        const key = `${posting[i]}:${posting[i + 1] - time}`;
+        const count = (votes.get(key) ?? 0) + 1;
+        votes.set(key, count);
+        if (count > bestVotes) {
+          bestKey = key;
+          bestVotes = count;
+        }
+      }
+    }
+
+    if (!bestKey) return null;
+    const score = bestVotes / clip.length;
+    if (bestVotes < minVotes || score < minScore) return null;
+
+    const [trackIndex, offsetPasses] = bestKey.split(':').map(Number);
+    return {
+      track: this.tracks[trackIndex].track,
+      score,
+      votes: bestVotes,
+      offsetSeconds: Math.max(0, offsetPasses * SECONDS_PER_PASS),
+    };
+  }
+
+  save(filePath: string): void {
+    const header: IndexHeader = { version: FORMAT_VERSION, tracks: this.tracks };
+    const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+    const total = this.landmarks.reduce((sum, l) => sum + l.length, 0);
+    const body = new Uint32Array(total * 2);
+    let pos = 0;
+    for (const landmarks of this.landmarks) {
+      for (const { hash, time } of landmarks) {
+        body[pos++] = hash;
+        body[pos++] = time;
+      }
+    }
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(headerBytes.length, 0);
+    fs.writeFileSync(filePath, Buffer.concat([length, headerBytes, Buffer.from(body.buffer)]));
+  }
+
+  static load(filePath: string): FingerprintIndex {
+    const raw = fs.readFileSync(filePath);
+    const headerLength = raw.readUInt32LE(0);
+    const header = JSON.parse(raw.subarray(4, 4 + headerLength).toString('utf8')) as IndexHeader;
+    if (header.version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported fingerprint index version ${header.version} in ${filePath}`);
+    }
+
+    const bodyStart = 4 + headerLength;
+    const body = new Uint32Array(raw.buffer.slice(raw.byteOffset + bodyStart, raw.byteOffset + raw.length));
+    const index = new FingerprintIndex();
+    let pos = 0;
+    for (const info of header.tracks) {
+      const landmarks: Landmark[] = [];
+      for (let i = 0; i < info.landmarkCount; i++) {
+        landmarks.push({ hash: body[pos], time: body[pos + 1] });
+        pos += 2;
+      }
+      index.tracks.push(info);
+      index.landmarks.push(landmarks);
+    }
+    index.rebuildPostings();
+    return index;
+  }
+
+  private rebuildPostings(): void {
+    this.postings.clear();
+    this.landmarks.forEach((landmarks, trackIndex) => {
+      for (const { hash, time } of landmarks) {
+        let posting = this.postings.get(hash);
+        if (!posting) {
+          posting = [];
+          this.postings.set(hash, posting);
+        }
+        posting.push(trackIndex, time);
+      }
+    });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Build or update the local fingerprint index from reference audio files.
+ *
+ * Usage: npm run fingerprint:ingest -- <manifest.json> [index.fpdb]
+ *
+ * The manifest lists the songs to ingest; file paths are relative to the manifest:
+ *   [{ "file": "audio/kesariya.mp3", "key": "kesariya", "title": "Kesariya", "subtitle": "Arijit Singh" }]
+ * The index path defaults to LOCAL_FINGERPRINT_DB, then ./fingerprints.fpdb.
+ * Tracks already in the index are replaced when their key is ingested again.
+ * Run it with the server's RECOGNIZE_PREPROCESS setting, and re-ingest when that changes.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Shazam } from 'node-shazam';
+import { decodeToSamples } from '../audio.js';
+import { landmarksFromSignature, type Landmark } from '../fingerprint.js';
+import { Preprocessor } from '../preprocess.js';
+import { describeIssues, parsePreprocessConfig } from '../config.js';
+import type { RecognizedTrack } from '../providers/types.js';
+import { FingerprintIndex } from './index.js';
+
+interface ManifestEntry extends RecognizedTrack {
+  file: string;
+}
+
+const shazam = new Shazam();
+// Same chain (RECOGNIZE_PREPROCESS) as the server applies to clips
+const preprocessConfig = parsePreprocessConfig();
+if (preprocessConfig.success === false) {
+  console.error(`Invalid configuration:\n  ${describeIssues(preprocessConfig.issues).join('\n  ')}`);
+  process.exit(1);
+}
+const preprocessor = new Preprocessor(preprocessConfig.data.steps, preprocessConfig.data.options);
+
+/** Decode a whole reference file and compute its landmarks. */
+async function landmarksFromFile(filePath: string): Promise<Landmark[]> {
+  const { samples } = preprocessor.run(await decodeToSamples(filePath, null));
+  const signature = shazam.createSignatureGenerator(samples).getNextSignature();
+  return signature ? landmarksFromSignature(signature) : [];
+}
+
+async function main() {
+  const [manifestPath, indexArg] = process.argv.slice(2);
+  if (!manifestPath) {
+    console.error('Usage: npm run fingerprint:ingest -- <manifest.json> [index.fpdb]');
+    process.exit(1);
+  }
+
+  const indexPath = indexArg ?? process.env.LOCAL_FINGERPRINT_DB ?? 'fingerprints.fpdb';
+  const index = fs.existsSync(indexPath) ? FingerprintIndex.load(indexPath) : new FingerprintIndex();
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as ManifestEntry[];
+  const baseDir = path.dirname(path.resolve(manifestPath));
+
+  for (const { file, ...track } of manifest) {
+    const filePath = path.resolve(baseDir, file);
+    const started = Date.now();
+    const landmarks = await landmarksFromFile(filePath);
+    if (landmarks.length === 0) {
+      console.warn(`   skipped ${file}: no landmarks (silent or unreadable)`);
+      continue;
+    }
+    index.addTrack(track, landmarks, file);
+    console.log(`   ${track.title} – ${landmarks.length} landmarks (${Date.now() - started}ms)`);
+  }
+
+  index.save(indexPath);
+  console.log(`\nSaved ${index.size} tracks to ${indexPath}`);
+}
+
+main().catch((err) => {
+  console.error('[fingerprint:ingest]', err);
+  process.exit(1);
+});
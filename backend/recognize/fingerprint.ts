@@ -0,0 +1,73 @@
+/**
+ * Landmark hashes built from node-shazam signature peaks.
+ * Each peak is paired with a few peaks that follow it and the pair is hashed as
+ * (anchor frequency, target frequency, time delta), which does not depend on where
+ * the clip starts, so two captures of the same audio share most of their hashes.
+ */
+
+/** Subset of node-shazam's FrequencyPeak we rely on. */
+export interface SignaturePeak {
+  fftPassNumber: number;
+  correctedPeakFrequencyBin: number;
+}
+
+/** Subset of node-shazam's DecodedMessage we rely on. */
+export interface PeakSignature {
+  frequencyBandToSoundPeaks: Record<string, SignaturePeak[]>;
+}
+
+export interface Landmark {
+  hash: number;
+  /** FFT pass (128 samples at 16 kHz = 8 ms) of the anchor peak. */
+  time: number;
+}
+
+/** Length of one FFT pass in seconds. */
+export const SECONDS_PER_PASS = 128 / 16000;
+
+/** Peaks paired with each anchor. */
+const FAN_OUT = 5;
+/** Max distance between anchor and target, in FFT passes (~2 s). */
+const MAX_DELTA_PASSES = 255;
+
+/** Flatten all frequency bands into one time-ordered peak list. */
+function sortedPeaks(signature: PeakSignature): SignaturePeak[] {
+  return Object.values(signature.frequencyBandToSoundPeaks)
+    .flat()
+    .sort((a, b) => a.fftPassNumber - b.fftPassNumber || a.correctedPeakFrequencyBin - b.correctedPeakFrequencyBin);
+}
+
+/** Compute landmark hashes for a signature. */
+export function landmarksFromSignature(signature: PeakSignature): Landmark[] {
+  const peaks = sortedPeaks(signature);
+  const landmarks: Landmark[] = [];
+
+  for (let i = 0; i < peaks.length; i++) {
+    const anchor = peaks[i];
+    let paired = 0;
+    for (let j = i + 1; j < peaks.length && paired < FAN_OUT; j++) {
+      const target = peaks[j];
+      const delta = target.fftPassNumber - anchor.fftPassNumber;
+      if (delta === 0) continue;
+      if (delta > MAX_DELTA_PASSES) break;
+      // correctedPeakFrequencyBin is the FFT bin (0-1024) scaled by 64; keep whole bins (10 bits)
+      const f1 = (anchor.correctedPeakFrequencyBin >> 6) & 0x3ff;
+      const f2 = (target.correctedPeakFrequencyBin >> 6) & 0x3ff;
+      landmarks.push({ hash: (f1 << 18) | (f2 << 8) | delta, time: anchor.fftPassNumber });
+      paired++;
+    }
+  }
+
+  return landmarks;
+}
+
+/** Jaccard similarity of two hash sets (0 = disjoint, 1 = identical). */
+export function hashSimilarity(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const hash of small) {
+    if (large.has(hash)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
@@ -0,0 +1,138 @@
+/**
+ * Readiness checks for the recognize server (GET /api/ready).
+ * Verifies what a request needs beyond the process being up: the ffmpeg binary, a
+ * writable upload dir with free space, at least one reachable provider, and a bundled
+ * known-good clip decoding to sensible audio. Cloud Run stops routing traffic to a
+ * revision whose readiness probe fails, so a broken image never takes requests.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { decodeToSamples, ffmpegVersion, SAMPLE_RATE } from './audio.js';
+import type { RecognitionProvider } from './providers/index.js';
+import { scratchPath, UPLOAD_DIR } from './uploads.js';
+
+/** 3 s Opus/WebM tone sweep, the format browsers record. */
+const SAMPLE_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'assets', 'ready-check.webm');
+const SAMPLE_MIN_SECONDS = 2.5;
+/** RMS (in s16 units) the sample must exceed; silence would mean a broken decode. */
+const SAMPLE_MIN_RMS = 1000;
+
+/** Each check gets this long before it counts as failed. */
+const CHECK_TIMEOUT_MS = 5000;
+
+export interface CheckResult {
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+  [detail: string]: unknown;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checkedAt: string;
+  checks: Record<string, CheckResult>;
+}
+
+export interface ReadinessOptions {
+  /** Minimum free space in the upload dir. */
+  minFreeBytes: number;
+  /** Reuse a report for this long, so frequent probes don't spawn ffmpeg each time. */
+  cacheMs: number;
+}
+
+async function runCheck(fn: () => Promise<Record<string, unknown> | void>): Promise<CheckResult> {
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+    });
+    const details = await Promise.race([fn(), timeout]);
+    return { ok: true, durationMs: Date.now() - started, ...details };
+  } catch (err) {
+    return { ok: false, durationMs: Date.now() - started, error: err instanceof Error ? err.message : String(err) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export class ReadinessProbe {
+  private last: { report: ReadinessReport; at: number } | null = null;
+  private pending: Promise<ReadinessReport> | null = null;
+  private draining = false;
+
+  constructor(
+    private providers: RecognitionProvider[],
+    private options: ReadinessOptions
+  ) {}
+
+  /** Report not ready from now on, so the load balancer stops sending work while shutdown drains. */
+  markDraining(): void {
+    this.draining = true;
+  }
+
+  /** Run all checks (or return the recent report). */
+  async check(): Promise<ReadinessReport> {
+    if (this.draining) {
+      return {
+        ready: false,
+        checkedAt: new Date().toISOString(),
+        checks: { shutdown: { ok: false, durationMs: 0, error: 'Shutting down' } },
+      };
+    }
+    if (this.last && Date.now() - this.last.at < this.options.cacheMs) return this.last.report;
+    this.pending ??= this.runChecks().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async runChecks(): Promise<ReadinessReport> {
+    const [ffmpeg, uploadDir, decode, ...providerResults] = await Promise.all([
+      runCheck(async () => ({ version: await ffmpegVersion() })),
+      runCheck(async () => this.checkUploadDir()),
+      runCheck(async () => this.checkDecode()),
+      ...this.providers.map((provider) => runCheck(() => provider.checkHealth())),
+    ]);
+
+    const providers = Object.fromEntries(this.providers.map((provider, i) => [provider.name, providerResults[i]]));
+    // The chain falls through failing providers, so one working provider is enough
+    const anyProvider = providerResults.some((result) => result.ok);
+    const report: ReadinessReport = {
+      ready: ffmpeg.ok && uploadDir.ok && decode.ok && anyProvider,
+      checkedAt: new Date().toISOString(),
+      checks: {
+        ffmpeg,
+        uploadDir,
+        decode,
+        providers: { ok: anyProvider, durationMs: Math.max(0, ...providerResults.map((r) => r.durationMs)), providers },
+      },
+    };
+    this.last = { report, at: Date.now() };
+    return report;
+  }
+
+  private checkUploadDir() {
+    const probe = scratchPath('.ready');
+    fs.writeFileSync(probe, 'ok');
+    fs.rmSync(probe, { force: true });
+
+    const stats = fs.statfsSync(UPLOAD_DIR);
+    const freeBytes = stats.bavail * stats.bsize;
+    if (freeBytes < this.options.minFreeBytes) {
+      throw new Error(`Only ${freeBytes} bytes free in ${UPLOAD_DIR} (need ${this.options.minFreeBytes})`);
+    }
+    return { path: UPLOAD_DIR, freeBytes };
+  }
+
+  private async checkDecode() {
+    const samples = await decodeToSamples(fs.readFileSync(SAMPLE_PATH));
+    const seconds = samples.length / SAMPLE_RATE;
+    const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / Math.max(1, samples.length));
+    if (seconds < SAMPLE_MIN_SECONDS) throw new Error(`Decoded only ${seconds.toFixed(2)} s of the sample`);
+    if (rms < SAMPLE_MIN_RMS) throw new Error(`Decoded sample is near-silent (RMS ${Math.round(rms)})`);
+    return { seconds, rms: Math.round(rms) };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Track metadata in more than one language.
+ * Shazam answers in the server's locale (RECOGNIZE_LOCALE), and Bollywood titles often come
+ * back in a romanization that YouTube searches poorly. A request can ask for its title in
+ * another locale (e.g. hi-IN for Devanagari) and for extra locales; every title found is
+ * returned as titleVariants so the video search can choose.
+ */
+
+import type { TitleScript, TitleVariant } from '../contract/index.js';
+import type { LocalizedTitle, ProviderMatch, RecognitionProvider, RecognizedTrack } from './providers/index.js';
+import { log } from './logger.js';
+
+/** Language tags as Shazam takes them: en-US, hi-IN, pa. */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+/** Each extra locale costs a provider call per new track. */
+export const MAX_METADATA_LOCALES = 3;
+
+export interface LocaleRequest {
+  /** Language of the returned title and subtitle. */
+  locale: string;
+  /** Also fetched, for titleVariants. */
+  metadataLocales: string[];
+}
+
+export type LocaleRequestResult = { ok: true; request: LocaleRequest } | { ok: false; error: string };
+
+/**
+ * Check a request's locale fields (form fields or query params); missing ones take the
+ * server defaults. metadataLocales is comma-separated.
+ */
+export function parseLocaleRequest(locale: unknown, metadataLocales: unknown, defaults: LocaleRequest): LocaleRequestResult {
+  const primary = typeof locale === 'string' && locale.trim() !== '' ? locale.trim() : defaults.locale;
+  const extra =
+    typeof metadataLocales === 'string'
+      ? metadataLocales.split(',').map((item) => item.trim()).filter(Boolean)
+      : defaults.metadataLocales;
+
+  const invalid = [primary, ...extra].find((item) => !LOCALE_PATTERN.test(item));
+  if (invalid !== undefined) return { ok: false, error: `Invalid locale "${invalid}". Use a language tag like en-US or hi-IN.` };
+  if (extra.length > MAX_METADATA_LOCALES) {
+    return { ok: false, error: `At most ${MAX_METADATA_LOCALES} metadataLocales are supported.` };
+  }
+  return { ok: true, request: { locale: primary, metadataLocales: extra } };
+}
+
+/** Writing system of most letters in text. */
+export function titleScript(text: string): TitleScript {
+  const counts: Record<TitleScript, number> = { latin: 0, devanagari: 0, gurmukhi: 0, other: 0 };
+  for (const char of text) {
+    if (/\p{Script=Latin}/u.test(char)) counts.latin++;
+    else if (/\p{Script=Devanagari}/u.test(char)) counts.devanagari++;
+    else if (/\p{Script=Gurmukhi}/u.test(char)) counts.gurmukhi++;
+    else if (/\p{L}/u.test(char)) counts.other++;
+  }
+  const [script, count] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0] as [TitleScript, number];
+  return count === 0 ? 'latin' : script;
+}
+
+export interface TrackLocalizerOptions {
+  /** Locale the providers recognize in. */
+  defaultLocale: string;
+  /** How long a looked-up title is reused; a track keeps playing across many clips. */
+  ttlMs: number;
+  maxEntries: number;
+}
+
+export class TrackLocalizer {
+  private titles = new Map<string, { title: LocalizedTitle | null; expiresAt: number }>();
+
+  constructor(
+    private providers: RecognitionProvider[],
+    private options: TrackLocalizerOptions
+  ) {}
+
+  /** The matched track titled in request.locale, with titleVariants when more than one locale was wanted. */
+  async localize(match: ProviderMatch, request: LocaleRequest): Promise<RecognizedTrack> {
+    const { defaultLocale } = this.options;
+    const locales = [...new Set([request.locale, ...request.metadataLocales, defaultLocale])];
+    if (locales.length === 1) return match.track;
+
+    const provider = this.providers.find((candidate) => candidate.name === match.provider);
+    const titles = await Promise.all(
+      locales.map((locale) =>
+        locale === defaultLocale
+          ? { title: match.track.title, subtitle: match.track.subtitle }
+          : this.lookup(provider, match.track.key, locale)
+      )
+    );
+
+    const variants: TitleVariant[] = [];
+    titles.forEach((title, i) => {
+      if (title) variants.push({ locale: locales[i], script: titleScript(title.title), ...title });
+    });
+    // Falls back to the default locale's title when the provider has none in the requested one
+    const primary = variants.find((variant) => variant.locale === request.locale) ?? variants.find((variant) => variant.locale === defaultLocale)!;
+    return { ...match.track, title: primary.title, subtitle: primary.subtitle, titleVariants: variants };
+  }
+
+  private async lookup(provider: RecognitionProvider | undefined, key: string, locale: string): Promise<LocalizedTitle | null> {
+    if (!provider?.localizeTrack) return null;
+    const cacheKey = `${provider.name}:${key}:${locale}`;
+    const cached = this.titles.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) return cached.title;
+
+    let title: LocalizedTitle | null;
+    try {
+      title = await provider.localizeTrack(key, locale);
+    } catch (err) {
+      // The match itself is fine; answer without this variant (and try again next time)
+      log.warn('track metadata lookup failed', { provider: provider.name, trackKey: key, locale, err });
+      return null;
+    }
+
+    this.titles.delete(cacheKey);
+    this.titles.set(cacheKey, { title, expiresAt: Date.now() + this.options.ttlMs });
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.titles.size > this.options.maxEntries) this.titles.delete(this.titles.keys().next().value!);
+    return title;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Structured logging for the recognize server.
+ * One JSON object per line, which Cloud Logging parses into queryable fields
+ * (severity, message, requestId, durationMs, outcome, ...). Lines written while handling
+ * a request carry its X-Request-Id, which the frontend also sends to youtube-search, so
+ * one user's recognition-to-video flow can be followed across services.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { REQUEST_ID_HEADER } from '../contract/index.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+/** Cloud Logging severity names. */
+const SEVERITY: Record<LogLevel, string> = { debug: 'DEBUG', info: 'INFO', warn: 'WARNING', error: 'ERROR' };
+
+let minLevel = LOG_LEVELS.indexOf('info');
+
+/** Lowest level written; the server applies LOG_LEVEL from its config at startup. */
+export function setLogLevel(level: LogLevel) {
+  minLevel = LOG_LEVELS.indexOf(level);
+}
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/** Ids from clients are echoed into logs; anything else gets a fresh one. */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/** The client's request id when it is usable, otherwise a new one. */
+export function resolveRequestId(value: string | null | undefined): string {
+  return value && REQUEST_ID_PATTERN.test(value) ? value : crypto.randomUUID();
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/** Run fn with requestId attached to everything it logs (e.g. a WebSocket session's work). */
+export function withRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+/** Errors don't survive JSON.stringify; keep what helps debugging. */
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+  return value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LOG_LEVELS.indexOf(level) < minLevel) return;
+  const entry: LogFields = {
+    severity: SEVERITY[level],
+    level,
+    time: new Date().toISOString(),
+    message,
+    requestId: currentRequestId(),
+  };
+  for (const [key, value] of Object.entries(fields)) entry[key] = serialize(value);
+  const line = JSON.stringify(entry) + '\n';
+  if (level === 'warn' || level === 'error') process.stderr.write(line);
+  else process.stdout.write(line);
+}
+
+export const log = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+/** Express middleware: take (or assign) the request id, echo it back, and log under it. */
+export function requestIds() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const requestId = resolveRequestId(req.get(REQUEST_ID_HEADER));
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    withRequestId(requestId, next);
+  };
+}
+
+/**
+ * Wrap middleware that loses the request context, like multer, which parses the body
+ * from socket events; the handlers after it log with the request id again.
+ */
+export function keepRequestContext(middleware: RequestHandler): RequestHandler {
+  return (req, res, next) => {
+    const store = requestContext.getStore();
+    middleware(req, res, (err?: unknown) => (store ? requestContext.run(store, () => next(err)) : next(err)));
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Prometheus metrics for the recognize server, served at GET /metrics.
+ * Request outcomes, where the time goes (decode vs providers), upload sizes and
+ * per-provider results, so a spike in "could not identify" can be traced to bad
+ * audio (too-short, slow or failing decodes) or to a provider (errors, no-match).
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export type RequestOutcome = 'matched' | 'no-match' | 'too-short' | 'bad-request' | 'shed' | 'error';
+
+export const requestsTotal = new Counter({
+  name: 'recognize_requests_total',
+  help: 'POST /api/recognize requests by outcome',
+  labelNames: ['outcome'] as const,
+  registers: [registry],
+});
+
+export const requestDuration = new Histogram({
+  name: 'recognize_request_duration_seconds',
+  help: 'POST /api/recognize duration by outcome',
+  labelNames: ['outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 4, 8, 15, 30],
+  registers: [registry],
+});
+
+export const stageDuration = new Histogram({
+  name: 'recognize_stage_duration_seconds',
+  help: 'Time per stage: decode (ffmpeg or WAV), preprocess, and provider (signature, cache and provider chain)',
+  labelNames: ['stage'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 4, 8, 15],
+  registers: [registry],
+});
+
+export const uploadBytes = new Histogram({
+  name: 'recognize_upload_bytes',
+  help: 'Size of uploaded audio clips',
+  buckets: [1e3, 1e4, 5e4, 1e5, 2.5e5, 5e5, 1e6, 2.5e6, 5e6, 1e7],
+  registers: [registry],
+});
+
+export const inputLoudness = new Histogram({
+  name: 'recognize_input_loudness_dbfs',
+  help: 'RMS level of uploaded clips before preprocessing',
+  buckets: [-60, -50, -45, -40, -35, -30, -25, -20, -15, -10, -5],
+  registers: [registry],
+});
+
+export const inputClippingRatio = new Histogram({
+  name: 'recognize_input_clipping_ratio',
+  help: 'Share of clipped samples in uploaded clips',
+  buckets: [0, 0.001, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2],
+  registers: [registry],
+});
+
+export const inFlightRequests = new Gauge({
+  name: 'recognize_in_flight_requests',
+  help: 'POST /api/recognize requests currently being handled',
+  registers: [registry],
+});
+
+export const workRunning = new Gauge({
+  name: 'recognize_work_running',
+  help: 'Recognitions (uploads and stream windows) holding a work pool slot',
+  registers: [registry],
+});
+
+export const workQueueDepth = new Gauge({
+  name: 'recognize_work_queue_depth',
+  help: 'Recognitions waiting for a work pool slot',
+  registers: [registry],
+});
+
+export const workShed = new Counter({
+  name: 'recognize_work_shed_total',
+  help: 'Recognitions dropped without running, because the queue was full or the wait timed out',
+  labelNames: ['reason'] as const,
+  registers: [registry],
+});
+
+export const providerResults = new Counter({
+  name: 'recognize_provider_results_total',
+  help: 'Provider answers (match, no-match, error), for uploads and streams',
+  labelNames: ['provider', 'result'] as const,
+  registers: [registry],
+});
+
+/** Run fn and record its duration under the given stage. */
+export async function timeStage<T>(stage: 'decode' | 'preprocess' | 'provider', fn: () => Promise<T>): Promise<T> {
+  const end = stageDuration.startTimer({ stage });
+  try {
+    return await fn();
+  } finally {
+    end();
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * OpenAPI document for the recognize server, generated from the shared API contract.
+ * Each route is listed once with every status it can answer and the contract schema of
+ * that body; tests send requests to the real handlers and check the answers against it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  batchErrorSchema,
+  batchJobResponseSchema,
+  batchProgressResponseSchema,
+  batchResultResponseSchema,
+  recognizeFailureSchema,
+  recognizeResponseSchema,
+  type JsonSchema,
+  type Schema,
+} from '../contract/index.js';
+import { boolean, integer, number, object, optional, record, string } from '../contract/schema.js';
+import { CLIENT_TOKEN_HEADER } from './rate-limit.js';
+import { MAX_METADATA_LOCALES } from './locales.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export interface ApiLimits {
+  maxUploadBytes: number;
+  /** Smaller uploads are rejected as "too short" before decoding. */
+  minUploadBytes: number;
+  /** Audio file extensions accepted besides any audio/* content type. */
+  allowedExtensions: string[];
+  maxBatchUploadBytes: number;
+  rateLimitWindowMs: number;
+  /** 0 when the limit is off. */
+  rateLimitMaxPerIp: number;
+  rateLimitMaxPerClient: number;
+  tokenRequired: boolean;
+}
+
+export interface ResponseSpec {
+  description: string;
+  /** JSON body; omitted for non-JSON responses. */
+  schema?: Schema<unknown>;
+  /** Non-JSON content type, e.g. text/html. */
+  contentType?: string;
+  headers?: Record<string, { description: string; schema: JsonSchema }>;
+}
+
+export interface Operation {
+  method: 'get' | 'post';
+  /** Express route path, e.g. /api/batch/:id. */
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  /** Behind the client-token check (and, for uploads, the rate limits). */
+  guarded?: boolean;
+  requestBody?: { description: string; multipart: JsonSchema; required: boolean };
+  responses: Record<number, ResponseSpec>;
+}
+
+// Operational endpoints aren't part of the client contract; their shapes live here
+const healthSchema = object({ ok: boolean() });
+const checkSchema = object({ ok: boolean(), durationMs: number(), error: optional(string()) });
+const readinessSchema = object({ ready: boolean(), checkedAt: string(), checks: record(checkSchema) });
+const cacheStatsSchema = object({ hits: integer(0), misses: integer(0), size: integer(0), hitRate: number() });
+
+const retryAfterHeader = {
+  'Retry-After': { description: 'Seconds until the limit resets.', schema: { type: 'integer', minimum: 1 } },
+};
+
+function megabytes(bytes: number): string {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+function audioUpload(maxBytes: number, extensions: string[], extra: Record<string, JsonSchema> = {}): JsonSchema {
+  return {
+    type: 'object',
+    required: ['audio'],
+    properties: {
+      audio: {
+        type: 'string',
+        format: 'binary',
+        description: `Audio file, at most ${megabytes(maxBytes)}: ${extensions
+          .map((ext) => `.${ext}`)
+          .join(', ')} or any audio/* content type.`,
+      },
+      ...extra,
+    },
+  };
+}
+
+/** Every route the server answers, with the statuses each can return. */
+export function apiOperations(limits: ApiLimits): Operation[] {
+  // Without RECOGNIZE_REQUIRE_TOKEN, invalid tokens are ignored rather than refused
+  const tokenResponses: Record<number, ResponseSpec> = limits.tokenRequired
+    ? { 401: { description: 'Missing, invalid or expired client token.', schema: recognizeFailureSchema } }
+    : {};
+  const guardResponses: Record<number, ResponseSpec> = {
+    ...tokenResponses,
+    403: { description: 'Origin not in CORS_ORIGINS.', schema: recognizeFailureSchema },
+    429: {
+      description: `Over the rate limit: ${limits.rateLimitMaxPerIp || 'unlimited'} per IP and ${
+        limits.rateLimitMaxPerClient || 'unlimited'
+      } per client per ${limits.rateLimitWindowMs / 1000} s.`,
+      schema: recognizeFailureSchema,
+      headers: retryAfterHeader,
+    },
+  };
+
+  return [
+    {
+      method: 'post',
+      path: '/api/recognize',
+      tag: 'Recognition',
+      summary: 'Recognize a short clip',
+      description:
+        'Decodes up to 10 s of the clip, preprocesses it and asks the providers in order until one matches. ' +
+        'Continuous recognition is also available over WebSocket at /api/recognize/stream.',
+      guarded: true,
+      requestBody: {
+        description: 'Multipart form',
+        required: true,
+        multipart: audioUpload(limits.maxUploadBytes, limits.allowedExtensions, {
+          capturedAt: {
+            type: 'integer',
+            description: 'Epoch ms the recording started; used to project offsetSeconds. Defaults to now minus the clip length.',
+          },
+          locale: {
+            type: 'string',
+            description: 'Language of the returned title and subtitle, e.g. hi-IN. Defaults to the server locale.',
+          },
+          metadataLocales: {
+            type: 'string',
+            description: `Comma-separated locales (at most ${MAX_METADATA_LOCALES}) also returned as track.titleVariants, e.g. hi-IN,en-US.`,
+          },
+        }),
+      },
+      responses: {
+        200: {
+          description: 'A match (success: true), or "Could not identify the song." with input diagnostics (success: false).',
+          schema: recognizeResponseSchema,
+        },
+        400: {
+          description: `No "audio" field, a file under ${limits.minUploadBytes} bytes, not an audio file, or an invalid locale.`,
+          schema: recognizeFailureSchema,
+        },
+        ...guardResponses,
+        413: { description: `Upload larger than ${megabytes(limits.maxUploadBytes)}.`, schema: recognizeFailureSchema },
+        500: { description: 'Decoding failed, or every provider errored.', schema: recognizeFailureSchema },
+        503: {
+          description: 'Busy: the recognition waited too long for a worker, or the queue was full.',
+          schema: recognizeFailureSchema,
+          headers: retryAfterHeader,
+        },
+      },
+    },
+    {
+      method: 'post',
+      path: '/api/batch',
+      tag: 'Batch',
+      summary: 'Start recognizing a long recording',
+      description: 'Returns at once with a job; the Location header points at its status.',
+      guarded: true,
+      requestBody: { description: 'Multipart form', required: true, multipart: audioUpload(limits.maxBatchUploadBytes, limits.allowedExtensions) },
+      responses: {
+        202: {
+          description: 'Job queued.',
+          schema: batchJobResponseSchema,
+          headers: { Location: { description: 'Job status URL.', schema: { type: 'string' } } },
+        },
+        400: { description: 'No "audio" field, or not an audio file.', schema: batchErrorSchema },
+        ...guardResponses,
+        413: { description: `Upload larger than ${megabytes(limits.maxBatchUploadBytes)}.`, schema: batchErrorSchema },
+        503: { description: 'Too many jobs queued.', schema: batchErrorSchema },
+      },
+    },
+    {
+      method: 'get',
+      path: '/api/batch/:id',
+      tag: 'Batch',
+      summary: 'Job status and tracklist so far',
+      guarded: true,
+      responses: {
+        200: { description: 'The job; segments is complete once status is "completed".', schema: batchResultResponseSchema },
+        ...tokenResponses,
+        404: { description: 'Unknown job, or finished too long ago.', schema: batchErrorSchema },
+      },
+    },
+    {
+      method: 'get',
+      path: '/api/batch/:id/progress',
+      tag: 'Batch',
+      summary: 'Job progress',
+      guarded: true,
+      responses: {
+        200: { description: 'Progress without the tracklist.', schema: batchProgressResponseSchema },
+        ...tokenResponses,
+        404: { description: 'Unknown job.', schema: batchErrorSchema },
+      },
+    },
+    {
+      method: 'post',
+      path: '/api/batch/:id/cancel',
+      tag: 'Batch',
+      summary: 'Cancel a queued or running job',
+      guarded: true,
+      responses: {
+        200: { description: 'Cancelled.', schema: batchJobResponseSchema },
+        ...tokenResponses,
+        404: { description: 'Unknown job.', schema: batchErrorSchema },
+        409: { description: 'Job already finished.', schema: batchErrorSchema },
+      },
+    },
+    {
+      method: 'get',
+      path: '/api/health',
+      tag: 'Operations',
+      summary: 'Liveness',
+      responses: { 200: { description: 'The process is up.', schema: healthSchema } },
+    },
+    {
+      method: 'get',
+      path: '/api/ready',
+      tag: 'Operations',
+      summary: 'Readiness (ffmpeg, upload dir, decode, providers)',
+      responses: {
+        200: { description: 'Ready to serve recognitions.', schema: readinessSchema },
+        503: { description: 'Not ready; failing checks carry an error.', schema: readinessSchema },
+      },
+    },
+    {
+      method: 'get',
+      path: '/api/cache/stats',
+      tag: 'Operations',
+      summary: 'Recognition cache counters',
+      responses: { 200: { description: 'Counters since start.', schema: cacheStatsSchema } },
+    },
+    {
+      method: 'get',
+      path: '/metrics',
+      tag: 'Operations',
+      summary: 'Prometheus metrics',
+      responses: { 200: { description: 'Prometheus text format.', contentType: 'text/plain' } },
+    },
+    {
+      method: 'get',
+      path: '/api/openapi.json',
+      tag: 'Operations',
+      summary: 'This document',
+      responses: { 200: { description: 'OpenAPI 3.1 document.', contentType: 'application/json' } },
+    },
+    {
+      method: 'get',
+      path: '/api/docs',
+      tag: 'Operations',
+      summary: 'Interactive API docs',
+      responses: { 200: { description: 'Swagger UI page.', contentType: 'text/html' } },
+    },
+  ];
+}
+
+/** /api/batch/:id → /api/batch/{id} */
+function openApiPath(expressPath: string): string {
+  return expressPath.replace(/:(\w+)/g, '{$1}');
+}
+
+function packageVersion(): string {
+  const pkg = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')) as { version?: string };
+  return pkg.version ?? '0.0.0';
+}
+
+export function buildOpenApiDocument(operations: Operation[], limits: ApiLimits) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const op of operations) {
+    const params = [...op.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    }));
+    const responses = Object.fromEntries(
+      Object.entries(op.responses).map(([status, response]) => [
+        status,
+        {
+          description: response.description,
+          ...(response.headers ? { headers: response.headers } : {}),
+          content: response.schema
+            ? { 'application/json': { schema: response.schema.jsonSchema() } }
+            : { [response.contentType ?? 'text/plain']: {} },
+        },
+      ])
+    );
+    (paths[openApiPath(op.path)] ??= {})[op.method] = {
+      tags: [op.tag],
+      summary: op.summary,
+      ...(op.description ? { description: op.description } : {}),
+      ...(params.length > 0 ? { parameters: params } : {}),
+      ...(op.guarded
+        ? { security: limits.tokenRequired ? [{ clientToken: [] }] : [{ clientToken: [] }, {}] }
+        : {}),
+      ...(op.requestBody
+        ? {
+            requestBody: {
+              description: op.requestBody.description,
+              required: op.requestBody.required,
+              content: { 'multipart/form-data': { schema: op.requestBody.multipart } },
+            },
+          }
+        : {}),
+      responses,
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Song-to-Bolly-Beat recognize API',
+      version: packageVersion(),
+      description:
+        `Song recognition for the Bolly Beat app. Send \`${CLIENT_TOKEN_HEADER}\` (a stable per-browser id) ` +
+        'so rate limits apply per device rather than per venue IP.',
+    },
+    tags: [{ name: 'Recognition' }, { name: 'Batch' }, { name: 'Operations' }],
+    components: {
+      securitySchemes: {
+        clientToken: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Short-lived token from the recognize-token Edge Function.',
+        },
+      },
+    },
+    paths,
+  };
+}
+
+/** Swagger UI page rendering the document at specUrl. */
+export function docsPage(specUrl: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Recognize API docs</title>
+  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui.css">
+</head>
+<body>
+  <div id="docs"></div>
+  <script src="https://cdn.jsdelivr.net/npm/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+  <script>
+    SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#docs' });
+  </script>
+</body>
+</html>
+`;
+}
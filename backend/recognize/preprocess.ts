@@ -0,0 +1,175 @@
+/**
+ * Audio preprocessing before fingerprinting, plus input diagnostics.
+ * Phone recordings in clubs are often clipped and dominated by sub-bass; filtering the
+ * bass and normalizing level leaves more usable spectral peaks for the signature.
+ * Diagnostics are measured on the input so the client can tell the user what to fix.
+ */
+
+import type { AudioDiagnostics } from '../contract/index.js';
+import { SAMPLE_RATE } from './audio.js';
+
+export type { AudioDiagnostics, DiagnosticWarning } from '../contract/index.js';
+
+export type PreprocessStep = 'highpass' | 'lowpass' | 'gate' | 'normalize';
+
+export const PREPROCESS_STEPS: PreprocessStep[] = ['highpass', 'lowpass', 'gate', 'normalize'];
+
+export interface PreprocessOptions {
+  /** Cutoff for `highpass`; tames kick drums and sub-bass. */
+  highpassHz: number;
+  /** Cutoff for `lowpass` (highpass + lowpass = band-pass). */
+  lowpassHz: number;
+  /** Frames quieter than this (dBFS RMS) are silenced by `gate`. */
+  gateDbfs: number;
+  /** RMS level `normalize` aims for. */
+  targetDbfs: number;
+}
+
+export interface PreprocessResult {
+  samples: number[];
+  diagnostics: AudioDiagnostics;
+}
+
+const FULL_SCALE = 32768;
+/** Samples this close to full scale count as clipped. */
+const CLIP_THRESHOLD = 0.98 * FULL_SCALE;
+/** Frame length for gating and SNR estimation (32 ms). */
+const FRAME_SIZE = 512;
+/** Max gain `normalize` applies, so near-silence isn't blown up into noise. */
+const MAX_GAIN_DB = 30;
+/** Peak level `normalize` won't exceed. */
+const PEAK_CEILING = 0.95 * FULL_SCALE;
+
+const TOO_QUIET_DBFS = -45;
+const CLIPPING_RATIO_WARNING = 0.01;
+const NOISY_SNR_DB = 6;
+
+function toDb(ratio: number): number {
+  return ratio > 0 ? Math.round(20 * Math.log10(ratio) * 10) / 10 : -120;
+}
+
+function rms(samples: ArrayLike<number>, start = 0, end = samples.length): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return end > start ? Math.sqrt(sum / (end - start)) : 0;
+}
+
+function frameLevels(samples: number[]): number[] {
+  const levels: number[] = [];
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += FRAME_SIZE) {
+    levels.push(rms(samples, start, start + FRAME_SIZE));
+  }
+  return levels;
+}
+
+/** Measure level, clipping and a rough SNR of 16 kHz s16 samples. */
+export function measureAudio(samples: number[]): AudioDiagnostics {
+  let peak = 0;
+  let clipped = 0;
+  for (const sample of samples) {
+    const magnitude = Math.abs(sample);
+    if (magnitude > peak) peak = magnitude;
+    if (magnitude >= CLIP_THRESHOLD) clipped++;
+  }
+
+  // 90th vs 10th percentile frame level
+  const levels = frameLevels(samples).sort((a, b) => a - b);
+  const percentile = (p: number) => levels[Math.min(levels.length - 1, Math.floor(p * levels.length))] ?? 0;
+  const noise = percentile(0.1);
+  const signal = percentile(0.9);
+
+  const diagnostics: AudioDiagnostics = {
+    loudnessDbfs: toDb(rms(samples) / FULL_SCALE),
+    peakDbfs: toDb(peak / FULL_SCALE),
+    clippingRatio: samples.length === 0 ? 0 : Math.round((clipped / samples.length) * 10000) / 10000,
+    estimatedSnrDb: noise > 0 ? toDb(signal / noise) : signal > 0 ? 120 : 0,
+    warnings: [],
+  };
+  if (diagnostics.loudnessDbfs < TOO_QUIET_DBFS) diagnostics.warnings.push('too-quiet');
+  if (diagnostics.clippingRatio > CLIPPING_RATIO_WARNING) diagnostics.warnings.push('clipping');
+  if (diagnostics.estimatedSnrDb < NOISY_SNR_DB) diagnostics.warnings.push('noisy');
+  return diagnostics;
+}
+
+/** Second-order Butterworth filter (RBJ cookbook biquad), applied in place. */
+function biquad(samples: Float64Array, type: 'highpass' | 'lowpass', cutoffHz: number) {
+  const w0 = (2 * Math.PI * Math.min(cutoffHz, SAMPLE_RATE / 2 - 1)) / SAMPLE_RATE;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / Math.SQRT2; // Q = 1/sqrt(2)
+  const a0 = 1 + alpha;
+  const b0 = (type === 'highpass' ? (1 + cos) / 2 : (1 - cos) / 2) / a0;
+  const b1 = (type === 'highpass' ? -(1 + cos) : 1 - cos) / a0;
+  const b2 = b0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x0 = samples[i];
+    const y0 = b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    samples[i] = y0;
+    x2 = x1;
+    x1 = x0;
+    y2 = y1;
+    y1 = y0;
+  }
+}
+
+function gate(samples: Float64Array, thresholdDbfs: number) {
+  const threshold = FULL_SCALE * 10 ** (thresholdDbfs / 20);
+  for (let start = 0; start < samples.length; start += FRAME_SIZE) {
+    const end = Math.min(samples.length, start + FRAME_SIZE);
+    if (rms(samples, start, end) < threshold) samples.fill(0, start, end);
+  }
+}
+
+function normalize(samples: Float64Array, targetDbfs: number) {
+  const level = rms(samples);
+  let peak = 0;
+  for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+  if (level === 0 || peak === 0) return;
+
+  const gain = Math.min(
+    (FULL_SCALE * 10 ** (targetDbfs / 20)) / level,
+    PEAK_CEILING / peak,
+    10 ** (MAX_GAIN_DB / 20)
+  );
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+}
+
+export class Preprocessor {
+  constructor(
+    private steps: PreprocessStep[],
+    private options: PreprocessOptions
+  ) {}
+
+  /** Run the chain in the configured order; diagnostics describe the unprocessed input. */
+  run(input: number[]): PreprocessResult {
+    const diagnostics = measureAudio(input);
+    if (this.steps.length === 0) return { samples: input, diagnostics };
+
+    const samples = Float64Array.from(input);
+    for (const step of this.steps) {
+      switch (step) {
+        case 'highpass':
+          biquad(samples, 'highpass', this.options.highpassHz);
+          break;
+        case 'lowpass':
+          biquad(samples, 'lowpass', this.options.lowpassHz);
+          break;
+        case 'gate':
+          gate(samples, this.options.gateDbfs);
+          break;
+        case 'normalize':
+          normalize(samples, this.options.targetDbfs);
+          break;
+      }
+    }
+
+    const output = new Array<number>(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      output[i] = Math.max(-32768, Math.min(32767, Math.round(samples[i])));
+    }
+    return { samples: output, diagnostics };
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Provider registry and fallback chain.
+ * Providers are tried in the configured order; the first match wins. A provider that
+ * throws (outage, throttling) is logged and skipped instead of failing the request.
+ */
+
+import { ShazamProvider } from './shazam.js';
+import { LocalFingerprintProvider } from './local.js';
+import { MockProvider } from './mock.js';
+import { providerResults } from '../metrics.js';
+import { log } from '../logger.js';
+import type { DecodedAudio, ProviderName, ProviderResult, RecognitionProvider } from './types.js';
+
+export type {
+  DecodedAudio,
+  LocalizedTitle,
+  ProviderName,
+  ProviderResult,
+  RecognitionProvider,
+  RecognizedTrack,
+} from './types.js';
+
+export interface ProviderOptions {
+  locale: string;
+  localIndexPath?: string;
+  /** Give up on a provider after this long, so the next one gets a turn; 0 disables. */
+  timeoutMs?: number;
+}
+
+export interface ProviderMatch extends ProviderResult {
+  provider: ProviderName;
+}
+
+/** Build providers from names such as "shazam,local". Unknown names throw. */
+export function createProviders(names: string[], options: ProviderOptions): RecognitionProvider[] {
+  return names.map((name) => {
+    const provider = createProvider(name, options);
+    return options.timeoutMs ? withTimeout(provider, options.timeoutMs) : provider;
+  });
+}
+
+function createProvider(name: string, options: ProviderOptions): RecognitionProvider {
+  switch (name) {
+    case 'shazam':
+      return new ShazamProvider(options.locale);
+    case 'local':
+      return new LocalFingerprintProvider(options.localIndexPath);
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown recognition provider "${name}"`);
+  }
+}
+
+/**
+ * A provider that doesn't answer within timeoutMs fails like one that threw. Its
+ * recognize call gets a signal that aborts at the timeout, so it can cancel the request.
+ */
+export function withTimeout(provider: RecognitionProvider, timeoutMs: number): RecognitionProvider {
+  const limit = async <T>(work: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const err = new Error(`Provider ${provider.name} timed out after ${timeoutMs} ms`);
+        controller.abort(err);
+        reject(err);
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([work(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+  return {
+    name: provider.name,
+    recognize: (audio) => limit((signal) => provider.recognize(audio, signal)),
+    ...(provider.localizeTrack
+      ? { localizeTrack: (key: string, locale: string) => limit(() => provider.localizeTrack!(key, locale)) }
+      : {}),
+    checkHealth: () => provider.checkHealth(),
+  };
+}
+
+/**
+ * Run the chain. Resolves to the first match, or null when every provider answered
+ * "no match". Rejects only when no provider could answer at all.
+ */
+export async function recognizeWithProviders(
+  providers: RecognitionProvider[],
+  audio: DecodedAudio
+): Promise<ProviderMatch | null> {
+  let lastError: unknown = null;
+  let answered = false;
+
+  for (const provider of providers) {
+    try {
+      const result = await provider.recognize(audio);
+      answered = true;
+      providerResults.inc({ provider: provider.name, result: result ? 'match' : 'no-match' });
+      if (result) return { ...result, provider: provider.name };
+    } catch (err) {
+      lastError = err;
+      providerResults.inc({ provider: provider.name, result: 'error' });
+      log.warn('provider failed', { provider: provider.name, err });
+    }
+  }
+
+  if (!answered && lastError) throw lastError;
+  return null;
+}
@@ -0,0 +1,36 @@
+/**
+ * Local provider: matches the clip against the self-hosted fingerprint database, so
+ * recognition of catalogue songs keeps working without Shazam.
+ */
+
+import fs from 'fs';
+import { landmarksFromSignature } from '../fingerprint.js';
+import { FingerprintIndex, type MatchOptions } from '../fingerprint-db/index.js';
+import type { DecodedAudio, ProviderResult, RecognitionProvider } from './types.js';
+import { log } from '../logger.js';
+
+export class LocalFingerprintProvider implements RecognitionProvider {
+  readonly name = 'local' as const;
+  private index: FingerprintIndex;
+
+  /**
+   * @param indexPath index built by `npm run fingerprint:ingest`; a missing file leaves the index empty
+   */
+  constructor(indexPath: string | undefined, private matchOptions: Partial<MatchOptions> = {}) {
+    this.index = indexPath && fs.existsSync(indexPath) ? FingerprintIndex.load(indexPath) : new FingerprintIndex();
+    if (indexPath) {
+      log.info('local fingerprint index loaded', { tracks: this.index.size, path: indexPath });
+    }
+  }
+
+  async recognize(audio: DecodedAudio): Promise<ProviderResult | null> {
+    if (!audio.signature || this.index.size === 0) return null;
+    const match = this.index.match(landmarksFromSignature(audio.signature), this.matchOptions);
+    if (!match) return null;
+    return { track: match.track, score: match.score, offsetSeconds: match.offsetSeconds };
+  }
+
+  async checkHealth(): Promise<void> {
+    if (this.index.size === 0) throw new Error('No fingerprint index loaded (set LOCAL_FINGERPRINT_DB)');
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Mock provider: answers every non-empty clip with a fixed track.
+ * For local development and tests without network access.
+ */
+
+import type { DecodedAudio, LocalizedTitle, ProviderResult, RecognitionProvider, RecognizedTrack } from './types.js';
+
+export const MOCK_TRACK: RecognizedTrack = {
+  key: 'mock-kesariya',
+  title: 'Kesariya',
+  subtitle: 'Arijit Singh',
+  type: 'MUSIC',
+};
+
+/** MOCK_TRACK in Hindi, as Shazam's hi-IN metadata writes it. */
+export const MOCK_TRACK_HINDI: LocalizedTitle = { title: 'केसरिया', subtitle: 'अरिजीत सिंह' };
+
+export class MockProvider implements RecognitionProvider {
+  readonly name = 'mock' as const;
+
+  /** Pass null to simulate a provider that never matches. */
+  constructor(private track: RecognizedTrack | null = MOCK_TRACK) {}
+
+  async recognize(audio: DecodedAudio): Promise<ProviderResult | null> {
+    if (audio.samples.length === 0 || !this.track) return null;
+    return { track: this.track };
+  }
+
+  async localizeTrack(key: string, locale: string): Promise<LocalizedTitle | null> {
+    return key === MOCK_TRACK.key && locale.startsWith('hi') ? MOCK_TRACK_HINDI : null;
+  }
+
+  async checkHealth(): Promise<void> {}
+}
@@ -0,0 +1,77 @@
+/**
+ * Shazam provider: sends the clip signature to Shazam via node-shazam.
+ */
+
+import { Shazam } from 'node-shazam';
+import type { DecodedAudio, LocalizedTitle, ProviderResult, RecognitionProvider, ShazamSignature } from './types.js';
+
+/** Host node-shazam sends recognition requests to. */
+const SHAZAM_HOST = 'https://amp.shazam.com/';
+
+type ShazamResponse = Awaited<ReturnType<Shazam['endpoint']['formatAndSendRecognizeRequest']>>;
+
+export class ShazamProvider implements RecognitionProvider {
+  readonly name = 'shazam' as const;
+  private shazam = new Shazam();
+
+  constructor(private locale = 'en-US') {}
+
+  async recognize(audio: DecodedAudio, signal?: AbortSignal): Promise<ProviderResult | null> {
+    if (!audio.signature) return null;
+    const data = await this.sendRecognizeRequest(audio.signature, signal);
+    if (!data?.track) return null;
+
+    const { key, title, subtitle, type, images, hub, url } = data.track;
+    return {
+      track: {
+        key,
+        title,
+        subtitle,
+        type,
+        images: images && { coverart: images.coverart, background: images.background },
+        hub: hub && { actions: hub.actions?.map(({ name, type, uri }) => ({ name, type, uri })) },
+        url,
+      },
+      // Shazam reports where in the song the signature matched, in seconds
+      offsetSeconds: data.matches?.[0]?.offset,
+    };
+  }
+
+  /**
+   * node-shazam's formatAndSendRecognizeRequest, plus the abort signal its fetch doesn't
+   * take, so a request the chain timed out doesn't hold a socket until Shazam answers.
+   */
+  private async sendRecognizeRequest(signature: ShazamSignature, signal?: AbortSignal): Promise<ShazamResponse> {
+    const endpoint = this.shazam.endpoint;
+    const url = new URL(endpoint.url());
+    for (const [name, value] of Object.entries(endpoint.params())) url.searchParams.append(name, value);
+    const body = JSON.stringify({
+      timezone: endpoint.timezone,
+      signature: {
+        uri: signature.encodeToUri(),
+        samplems: Math.round((signature.numberSamples / signature.sampleRateHz) * 1000),
+      },
+      timestamp: Date.now(),
+      context: {},
+      geolocation: {},
+    });
+    const response = await fetch(url, { method: 'POST', body, headers: endpoint.headers(this.locale), signal });
+    const data = (await response.json()) as ShazamResponse;
+    return data?.matches?.length === 0 ? null : data;
+  }
+
+  async localizeTrack(key: string, locale: string): Promise<LocalizedTitle | null> {
+    // Shazam's track page in that language; the country part only picks the store region
+    const country = locale.split('-')[1] ?? 'IN';
+    const data = (await this.shazam.track_info(locale, country, key)) as { title?: string; subtitle?: string } | null;
+    return data?.title ? { title: data.title, subtitle: data.subtitle ?? '' } : null;
+  }
+
+  async checkHealth(): Promise<void> {
+    // Any HTTP answer means DNS, TLS and the network path work; the status doesn't matter
+    await fetch(SHAZAM_HOST, { method: 'HEAD', signal: AbortSignal.timeout(3000) }).catch((err) => {
+      // fetch only says "fetch failed"; the cause has the DNS or connection error
+      throw new Error(`Shazam unreachable: ${err.cause?.message ?? err.message}`);
+    });
+  }
+}
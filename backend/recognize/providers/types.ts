@@ -0,0 +1,50 @@
+/**
+ * Recognition provider contract.
+ * Every provider receives the same decoded clip and answers with a normalized track
+ * (the subset of Shazam's track shape the frontend reads, defined by the shared API
+ * contract) or null for "no match".
+ */
+
+import type { Shazam } from 'node-shazam';
+import type { ProviderName, RecognizedTrack } from '../../contract/index.js';
+
+export type { ProviderName, RecognizedTrack };
+
+/** node-shazam signature (DecodedMessage); not exported by the package entry point. */
+export type ShazamSignature = NonNullable<
+  ReturnType<ReturnType<Shazam['createSignatureGenerator']>['getNextSignature']>
+>;
+
+export interface DecodedAudio {
+  /** 16 kHz mono s16le samples. */
+  samples: number[];
+  /** Signature of the samples, generated once per clip and shared by all providers. */
+  signature: ShazamSignature | null;
+}
+
+export interface ProviderResult {
+  track: RecognizedTrack;
+  /** Match confidence (0-1), when the provider reports one. */
+  score?: number;
+  /** Where the clip starts within the song, in seconds, when the provider reports it. */
+  offsetSeconds?: number;
+}
+
+/** A track's title and artist in one language. */
+export interface LocalizedTitle {
+  title: string;
+  subtitle: string;
+}
+
+export interface RecognitionProvider {
+  readonly name: ProviderName;
+  /**
+   * Resolve to the match, null when the clip is not recognized, or throw when the provider
+   * fails. Work still in flight when signal aborts (the chain gave up on it) should stop.
+   */
+  recognize(audio: DecodedAudio, signal?: AbortSignal): Promise<ProviderResult | null>;
+  /** Look a track it matched up by key in another locale (e.g. hi-IN); null when it has no such metadata. */
+  localizeTrack?(key: string, locale: string): Promise<LocalizedTitle | null>;
+  /** Resolve when the provider can answer right now (reachable, index loaded), otherwise throw. */
+  checkHealth(): Promise<void>;
+}
@@ -0,0 +1,120 @@
+/**
+ * Rate limiting for the recognize server.
+ * Fixed-window counters per key (client IP, client token), kept in memory; one Cloud Run
+ * instance only sees its own traffic, which is fine for stopping scripted abuse.
+ */
+
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+
+export interface RateLimitOptions {
+  windowMs: number;
+  /** Requests allowed per key per window; 0 disables the limiter. */
+  max: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Time until the window resets, when not allowed. */
+  retryAfterMs: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/** Prune expired windows once the map grows past this. */
+const PRUNE_THRESHOLD = 10_000;
+
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(private options: RateLimitOptions) {}
+
+  /** Count a request for key and say whether it is within the limit. */
+  hit(key: string): RateLimitResult {
+    const { windowMs, max } = this.options;
+    if (max <= 0) return { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+
+    const now = Date.now();
+    if (this.windows.size > PRUNE_THRESHOLD) this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+
+    if (window.count >= max) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+    }
+    window.count++;
+    return { allowed: true, remaining: max - window.count, retryAfterMs: 0 };
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+export interface RecognizeLimiters {
+  ip: RateLimiter;
+  client: RateLimiter;
+}
+
+/**
+ * Client IP for rate limiting. Behind a proxy (Cloud Run, Render) the socket address is the
+ * proxy's; each trusted hop appends the address it saw to X-Forwarded-For, so the client is
+ * `trustedHops` entries from the right. Entries further left are client-supplied and ignored.
+ */
+export function clientIp(req: IncomingMessage, trustedHops: number): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const chain = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (trustedHops > 0 && chain.length > 0) {
+    return chain[Math.max(0, chain.length - trustedHops)];
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Unsigned per-browser id sent by the frontend (header for HTTP, query param for WebSocket).
+ * A verified signed token's client id takes its place when present.
+ */
+export const CLIENT_TOKEN_HEADER = 'X-Client-Token';
+
+/** Check the IP limit, then the client-token limit if a token was sent. First denial wins. */
+export function checkRateLimits(limiters: RecognizeLimiters, ip: string, clientToken?: string | null): RateLimitResult {
+  const byIp = limiters.ip.hit(`ip:${ip}`);
+  if (!byIp.allowed || !clientToken) return byIp;
+  return limiters.client.hit(`client:${clientToken}`);
+}
+
+export function retryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+}
+
+/** Express middleware answering 429 with Retry-After when over the limit. */
+export function rateLimit(limiters: RecognizeLimiters, trustedHops: number) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const clientId = (res.locals.clientId as string | null | undefined) ?? req.get(CLIENT_TOKEN_HEADER);
+    const result = checkRateLimits(limiters, clientIp(req, trustedHops), clientId);
+    if (result.allowed) {
+      next();
+      return;
+    }
+    const seconds = retryAfterSeconds(result);
+    res.setHeader('Retry-After', String(seconds));
+    res.status(429).json({
+      success: false,
+      error: `Too many recognition requests. Try again in ${seconds} seconds.`,
+      retryAfterSeconds: seconds,
+    });
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Recognition of decoded clips: signature, fingerprint cache, then the provider chain.
+ * Shared by the multipart upload route and the streaming WebSocket endpoint.
+ */
+
+import { Shazam } from 'node-shazam';
+import { landmarksFromSignature, type Landmark } from './fingerprint.js';
+import type { RecognitionCache } from './cache.js';
+import { recognizeWithProviders, type ProviderMatch, type RecognitionProvider } from './providers/index.js';
+import { normalizeOffset, realignOffset } from './timing.js';
+import type { LocaleRequest, TrackLocalizer } from './locales.js';
+
+export interface CachedRecognition {
+  match: ProviderMatch;
+  /** Landmarks of the clip the match was made on; later clips are aligned against them. */
+  landmarks: Landmark[];
+}
+
+export interface RecognitionOutcome {
+  match: ProviderMatch;
+  cached: boolean;
+  /** Song position at the start of the clip, in seconds. */
+  offsetSeconds: number | null;
+  /** Epoch ms when the clip started recording. */
+  capturedAt: number;
+}
+
+export class Recognizer {
+  // Only used to generate clip signatures; recognition itself goes through the providers
+  private shazam = new Shazam();
+
+  constructor(
+    private providers: RecognitionProvider[],
+    private cache: RecognitionCache<CachedRecognition>,
+    private localizer?: TrackLocalizer
+  ) {}
+
+  /**
+   * Recognize 16 kHz mono samples; null when nothing matched.
+   * With locales, the track is titled in locales.locale and carries titleVariants.
+   */
+  async recognize(samples: number[], capturedAt: number, locales?: LocaleRequest): Promise<RecognitionOutcome | null> {
+    const signature = this.shazam.createSignatureGenerator(samples).getNextSignature();
+    if (!signature) return null;
+
+    const landmarks = landmarksFromSignature(signature);
+    const hashes = landmarks.map((l) => l.hash);
+    const cached = this.cache.lookup(hashes);
+    const match = cached?.match ?? (await recognizeWithProviders(this.providers, { samples, signature }));
+    if (!match) return null;
+
+    if (!cached) this.cache.store(hashes, { match, landmarks });
+    // The cache keeps the provider's own match; each request gets its own localized copy
+    const track = locales && this.localizer ? await this.localizer.localize(match, locales) : match.track;
+    return {
+      match: track === match.track ? match : { ...match, track },
+      cached: cached !== null,
+      // A hit is the same audio, possibly from another client: align it with the cached clip
+      offsetSeconds: cached
+        ? realignOffset(match.offsetSeconds, cached.landmarks, landmarks)
+        : normalizeOffset(match.offsetSeconds),
+      capturedAt,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Node recognize server for song-to-bolly-beat.
- * Uses node-shazam (fromFilePath) so browser WebM and other formats work.
+ * Decodes uploads in memory (ffmpeg over stdin, so browser WebM and other formats work),
+ * then runs them through the recognition providers (node-shazam first by default).
  * Replaces the RapidAPI Shazam flow when this server is used.
  */
 
@@ -8,55 +9,190 @@ import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
 import path from 'path';
-import fs from 'fs';
-import os from 'os';
 import { fileURLToPath } from 'url';
-import { Shazam } from 'node-shazam';
+import { decodeToSamples, killFfmpegProcesses, SAMPLE_RATE } from './audio.js';
+import { RecognitionCache } from './cache.js';
+import { createProviders } from './providers/index.js';
+import { Recognizer, type CachedRecognition } from './recognizer.js';
+import { resolveCapturedAt } from './timing.js';
+import { attachRecognizeStream } from './stream.js';
+import { requireClientToken } from './client-token.js';
+import { RateLimiter, rateLimit, CLIENT_TOKEN_HEADER, type RecognizeLimiters } from './rate-limit.js';
+import {
+  registry,
+  requestsTotal,
+  requestDuration,
+  uploadBytes,
+  inFlightRequests,
+  inputLoudness,
+  inputClippingRatio,
+  timeStage,
+  type RequestOutcome,
+} from './metrics.js';
+import { Preprocessor } from './preprocess.js';
+import { ReadinessProbe } from './health.js';
+import { BatchQueue, mergeSegments, type BatchJob } from './batch.js';
+import { ensureUploadDir, removeOwnScratchFiles, scratchPath, sweepUploadDir, UPLOAD_DIR } from './uploads.js';
+import { handleShutdownSignals, InFlightTracker } from './shutdown.js';
+import { WorkPool } from './work-pool.js';
+import { apiOperations, buildOpenApiDocument, docsPage, type ApiLimits } from './openapi.js';
+import { keepRequestContext, log, requestIds, setLogLevel } from './logger.js';
+import { describeConfig, describeIssues, parseConfig } from './config.js';
+import { parseLocaleRequest, TrackLocalizer, type LocaleRequest } from './locales.js';
+import {
+  REQUEST_ID_HEADER,
+  type BatchError,
+  type BatchJobResponse,
+  type BatchJobSummary,
+  type BatchProgressResponse,
+  type BatchResultResponse,
+  type RecognizeResponse,
+} from '../contract/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const app = express();
-const PORT = process.env.PORT ?? 3456;
-const shazam = new Shazam();
+export const app = express();
 
-const uploadDir = path.join(os.tmpdir(), 'song-to-bolly-beat-uploads');
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
+// Every setting comes from the environment (see config.ts); a bad value stops the server here
+const parsedConfig = parseConfig();
+if (parsedConfig.success === false) {
+  log.error('invalid configuration; not starting', { problems: describeIssues(parsedConfig.issues) });
+  process.exit(1);
 }
+export const config = parsedConfig.data;
+setLogLevel(config.logLevel);
 
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => cb(null, uploadDir),
-  filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname) || '.webm';
-    cb(null, `recording-${Date.now()}${ext}`);
-  },
+// Providers tried in order until one matches, e.g. RECOGNIZE_PROVIDERS=shazam,local.
+// Exported so tests can make one fail.
+export const providers = createProviders(config.providers, {
+  locale: config.locale,
+  localIndexPath: config.localFingerprintDb,
+  timeoutMs: config.providerTimeoutMs,
 });
+
+// Runs on every clip before fingerprinting, e.g. RECOGNIZE_PREPROCESS=highpass,lowpass,normalize
+// (empty disables it; diagnostics are still measured)
+const preprocessor = new Preprocessor(config.preprocess.steps, config.preprocess.options);
+
+// Recent recognitions by fingerprint, so a song that keeps playing doesn't hit Shazam every clip
+const recognitionCache = new RecognitionCache<CachedRecognition>(config.cache);
+// Titles in the locales a request asks for; lookups are kept as long as cached recognitions
+const defaultLocales: LocaleRequest = { locale: config.locale, metadataLocales: config.metadataLocales };
+const localizer = new TrackLocalizer(providers, {
+  defaultLocale: config.locale,
+  ttlMs: config.cache.ttlMs,
+  maxEntries: config.cache.maxEntries,
+});
+const recognizer = new Recognizer(providers, recognitionCache, localizer);
+
+// Uploads and stream windows recognized at once (each may run ffmpeg and a provider call);
+// the rest wait in line and are shed with 503 after RECOGNIZE_QUEUE_TIMEOUT_MS
+const workPool = new WorkPool({
+  concurrency: config.work.concurrency,
+  maxWaitMs: config.work.queueTimeoutMs,
+  maxQueued: config.work.maxQueued,
+});
+/** Retry-After sent with 503 when a recognition is shed. */
+const SHED_RETRY_AFTER_SECONDS = 5;
+
+// Per-IP and per-client-token request limits (0 disables). One phone uploads a clip every ~4 s;
+// the IP limit is higher because a venue's guests can share one public address.
+const limiters: RecognizeLimiters = {
+  ip: new RateLimiter({ windowMs: config.rateLimit.windowMs, max: config.rateLimit.maxPerIp }),
+  client: new RateLimiter({ windowMs: config.rateLimit.windowMs, max: config.rateLimit.maxPerClient }),
+};
+// Frontend origins, e.g. CORS_ORIGINS=https://bolly-beat.app,http://localhost:8080.
+// Unset allows any origin (local development).
+function isOriginAllowed(origin: string | undefined): boolean {
+  // Requests without an Origin (curl, server-to-server) aren't browser cross-origin requests
+  return config.corsOrigins.length === 0 || !origin || config.corsOrigins.includes(origin);
+}
+
+// Deep checks behind /api/ready; /api/health stays a cheap liveness check
+const readiness = new ReadinessProbe(providers, config.readiness);
+
+// Orphans from crashed runs; uploads themselves stay in memory
+ensureUploadDir();
+const swept = sweepUploadDir();
+if (swept > 0) log.info('removed orphaned upload files', { count: swept, dir: UPLOAD_DIR });
+
+const allowedExtensions = new RegExp(`\\.(${config.upload.allowedExtensions.join('|')})$`, 'i');
+const audioFileFilter: multer.Options['fileFilter'] = (_req, file, cb) => {
+  const allowed =
+    allowedExtensions.test(file.originalname) ||
+    (file.mimetype && /audio\//.test(file.mimetype));
+  if (allowed) cb(null, true);
+  else cb(new Error('Only audio files are allowed'));
+};
+
 const upload = multer({
-  storage,
-  limits: { fileSize: 10 * 1024 * 1024 },
-  fileFilter: (_req, file, cb) => {
-    const allowed =
-      /\.(webm|wav|mp3|ogg|m4a)$/i.test(file.originalname) ||
-      (file.mimetype && /audio\//.test(file.mimetype));
-    if (allowed) cb(null, true);
-    else cb(new Error('Only audio files are allowed'));
-  },
-});
-
-app.use(cors());
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.upload.maxBytes },
+  fileFilter: audioFileFilter,
+});
+
+// Long recordings (DJ sets) go to disk and are decoded as a stream by a background job
+const batchUpload = multer({
+  storage: multer.diskStorage({
+    destination: UPLOAD_DIR,
+    filename: (_req, file, cb) => cb(null, path.basename(scratchPath(path.extname(file.originalname)))),
+  }),
+  limits: { fileSize: config.batch.maxUploadBytes },
+  fileFilter: audioFileFilter,
+});
+const batchQueue = new BatchQueue(providers, preprocessor, workPool, config.batch);
+
+// Requests shutdown waits for (SIGTERM/SIGINT); Cloud Run allows 10 s before SIGKILL
+const inFlight = new InFlightTracker();
+app.use(inFlight.track());
+// X-Request-Id from the frontend (or a new one) on every log line and on the response
+app.use(requestIds());
+
+app.use(
+  cors({
+    origin: (origin, cb) => cb(null, isOriginAllowed(origin)),
+    allowedHeaders: ['Content-Type', 'Authorization', CLIENT_TOKEN_HEADER, REQUEST_ID_HEADER],
+    exposedHeaders: ['Retry-After', REQUEST_ID_HEADER],
+  })
+);
+// cors() only withholds the headers; refuse the work itself for other sites' pages
+app.use((req, res, next) => {
+  if (isOriginAllowed(req.get('Origin'))) next();
+  else res.status(403).json({ success: false, error: 'Origin not allowed' });
+});
 app.use(express.json());
 
-app.post('/api/recognize', upload.single('audio'), async (req, res) => {
+// Token and limits checked before multer so rejected requests don't buffer their upload.
+// Tokens come from the recognize-token Edge Function; with RECOGNIZE_REQUIRE_TOKEN=true,
+// requests without a valid one get 401.
+app.use('/api/recognize', requireClientToken(config.clientToken), rateLimit(limiters, config.rateLimit.trustedProxyHops));
+
+// Response bodies are checked against the shared contract the frontend parses them with
+app.post<Record<string, string>, RecognizeResponse>('/api/recognize', keepRequestContext(upload.single('audio')), async (req, res) => {
+  const endRequest = requestDuration.startTimer();
+  inFlightRequests.inc();
+  let outcome: RequestOutcome = 'error';
+  // Filled in as the request gets further, for the one summary line per recognition
+  const summary: Record<string, unknown> = {};
+  res.on('close', () => {
+    requestsTotal.inc({ outcome });
+    const durationMs = Math.round(endRequest({ outcome }) * 1000);
+    inFlightRequests.dec();
+    const fields = { outcome, status: res.statusCode, durationMs, ...summary };
+    if (outcome === 'error' || outcome === 'shed') log.warn('recognition finished', fields);
+    else log.info('recognition finished', fields);
+  });
+
   const file = req.file;
   if (!file) {
+    outcome = 'bad-request';
     res.status(400).json({ success: false, error: 'No audio file uploaded. Use field name "audio".' });
     return;
   }
+  uploadBytes.observe(file.size);
+  summary.bytes = file.size;
 
-  const filePath = file.path;
-  if (file.size < 1000) {
-    try {
-      fs.unlinkSync(filePath);
-    } catch (_) {}
+  if (file.size < config.upload.minBytes) {
+    outcome = 'too-short';
     res.status(400).json({
       success: false,
       error: 'Recording too short or empty. Allow the mic, play music, and try again.',
@@ -64,40 +200,228 @@ app.post('/api/recognize', upload.single('audio'), async (req, res) => {
     return;
   }
 
+  // Optional form fields, e.g. locale=hi-IN for a Devanagari title
+  const locales = parseLocaleRequest(req.body?.locale, req.body?.metadataLocales, defaultLocales);
+  if (!locales.ok) {
+    outcome = 'bad-request';
+    res.status(400).json({ success: false, error: locales.error });
+    return;
+  }
+
+  const release = await workPool.acquire();
+  if (!release) {
+    outcome = 'shed';
+    res.setHeader('Retry-After', String(SHED_RETRY_AFTER_SECONDS));
+    res.status(503).json({
+      success: false,
+      error: 'Server busy. Try again in a few seconds.',
+      retryAfterSeconds: SHED_RETRY_AFTER_SECONDS,
+    });
+    return;
+  }
+
   try {
-    // fromFilePath uses ffmpeg to convert WebM/WAV/etc to PCM, then recognizes
-    const data = await shazam.fromFilePath(filePath, false, 'en-US');
+    const decoded = await timeStage('decode', () => decodeToSamples(file.buffer));
+    const { samples, diagnostics } = await timeStage('preprocess', async () => preprocessor.run(decoded));
+    inputLoudness.observe(diagnostics.loudnessDbfs);
+    inputClippingRatio.observe(diagnostics.clippingRatio);
+    // Client sends when recording started (epoch ms) so offsets can be projected to "now"
+    const capturedAt = resolveCapturedAt(req.body?.capturedAt, samples.length / SAMPLE_RATE);
+    const result = await timeStage('provider', () => recognizer.recognize(samples, capturedAt, locales.request));
 
-    if (!data || !(data as { track?: unknown }).track) {
-      res.status(200).json({ success: false, error: 'Could not identify the song.' });
+    if (!result) {
+      outcome = 'no-match';
+      // Diagnostics let the client suggest a fix (move closer, turn away from the speaker)
+      res.status(200).json({ success: false, error: 'Could not identify the song.', diagnostics });
       return;
     }
 
-    const root = data as { track: Record<string, unknown>; matches?: unknown[] };
+    const { match } = result;
+    outcome = 'matched';
+    Object.assign(summary, { provider: match.provider, cached: result.cached, trackKey: match.track.key });
     // Match shape expected by song-to-bolly-beat frontend: { success, data: { matches, track } }
     res.json({
       success: true,
+      cached: result.cached,
+      provider: match.provider,
+      score: match.score,
+      diagnostics,
       data: {
-        matches: [{ track: root.track }],
-        track: root.track,
+        matches: [{ track: match.track }],
+        track: match.track,
+        offsetSeconds: result.offsetSeconds,
+        capturedAt: result.capturedAt,
       },
     });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error('[recognize]', err);
+    log.error('recognition failed', { err });
     res.status(500).json({ success: false, error: message });
   } finally {
-    try {
-      if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
-    } catch (_) {}
+    release();
   }
 });
 
+function describeJob(job: BatchJob): BatchJobSummary {
+  return {
+    id: job.id,
+    fileName: job.fileName,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    ...batchQueue.progress(job),
+    windowsFailed: job.windowsFailed,
+    error: job.error,
+  };
+}
+
+app.use('/api/batch', requireClientToken(config.clientToken));
+
+// Start a batch job: 202 with the job id; poll GET /api/batch/:id for the tracklist
+app.post<Record<string, string>, BatchJobResponse | BatchError>('/api/batch', rateLimit(limiters, config.rateLimit.trustedProxyHops), keepRequestContext(batchUpload.single('audio')), (req, res) => {
+  const file = req.file;
+  if (!file) {
+    res.status(400).json({ success: false, error: 'No audio file uploaded. Use field name "audio".' });
+    return;
+  }
+  const job = batchQueue.submit(file.path, file.originalname);
+  if (!job) {
+    res.status(503).json({ success: false, error: 'Too many batch jobs queued. Try again later.' });
+    return;
+  }
+  log.info('batch job queued', { jobId: job.id, fileName: file.originalname, bytes: file.size });
+  res.status(202).location(`/api/batch/${job.id}`).json({ success: true, job: describeJob(job) });
+});
+
+// Job status, plus the tracklist so far (complete once status is "completed")
+app.get<{ id: string }, BatchResultResponse | BatchError>('/api/batch/:id', (req, res) => {
+  const job = batchQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ success: false, error: 'Batch job not found' });
+    return;
+  }
+  res.json({ success: true, job: describeJob(job), segments: mergeSegments(job.windows) });
+});
+
+app.get<{ id: string }, BatchProgressResponse | BatchError>('/api/batch/:id/progress', (req, res) => {
+  const job = batchQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ success: false, error: 'Batch job not found' });
+    return;
+  }
+  res.json({ success: true, ...batchQueue.progress(job) });
+});
+
+app.post<{ id: string }, BatchJobResponse | BatchError>('/api/batch/:id/cancel', (req, res) => {
+  const job = batchQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ success: false, error: 'Batch job not found' });
+    return;
+  }
+  if (!batchQueue.cancel(job.id)) {
+    res.status(409).json({ success: false, error: `Job already ${job.status}` });
+    return;
+  }
+  res.json({ success: true, job: describeJob(job) });
+});
+
+// Liveness: the process is up and serving. No I/O, so it never fails under load.
 app.get('/api/health', (_req, res) => {
   res.json({ ok: true });
 });
 
-app.listen(PORT, () => {
-  console.log(`\n🎵 Song-to-Bolly-Beat recognize server (node-shazam) at http://localhost:${PORT}`);
-  console.log(`   Set VITE_RECOGNIZE_API_URL=http://localhost:${PORT} in frontend .env\n`);
+// Readiness: 503 with the failing checks when this instance can't serve recognitions,
+// and from the moment shutdown starts draining
+app.get('/api/ready', async (_req, res) => {
+  const report = await readiness.check();
+  res.status(report.ready ? 200 : 503).json(report);
 });
+
+app.get('/api/cache/stats', (_req, res) => {
+  res.json(recognitionCache.stats());
+});
+
+// Prometheus scrape endpoint
+app.get('/metrics', async (_req, res) => {
+  res.set('Content-Type', registry.contentType);
+  res.send(await registry.metrics());
+});
+
+// OpenAPI document generated from the shared contract, plus a Swagger UI page for it
+const apiLimits: ApiLimits = {
+  maxUploadBytes: config.upload.maxBytes,
+  minUploadBytes: config.upload.minBytes,
+  allowedExtensions: config.upload.allowedExtensions,
+  maxBatchUploadBytes: config.batch.maxUploadBytes,
+  rateLimitWindowMs: config.rateLimit.windowMs,
+  rateLimitMaxPerIp: config.rateLimit.maxPerIp,
+  rateLimitMaxPerClient: config.rateLimit.maxPerClient,
+  tokenRequired: config.clientToken.required,
+};
+export const operations = apiOperations(apiLimits);
+const openApiDocument = buildOpenApiDocument(operations, apiLimits);
+
+app.get('/api/openapi.json', (_req, res) => {
+  res.json(openApiDocument);
+});
+
+app.get('/api/docs', (_req, res) => {
+  res.type('html').send(docsPage('/api/openapi.json'));
+});
+
+// Upload errors (size limit, non-audio file) as JSON instead of Express's HTML page
+app.use((err: unknown, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err instanceof multer.MulterError) {
+    res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ success: false, error: err.message });
+  } else if (err instanceof Error && err.message === 'Only audio files are allowed') {
+    res.status(400).json({ success: false, error: err.message });
+  } else {
+    next(err);
+  }
+});
+
+/** Listen on port and attach the WebSocket endpoint. */
+export function start(port: number = config.port) {
+  const server = app.listen(port, () => {
+    log.info(`Song-to-Bolly-Beat recognize server listening at http://localhost:${port}`, { port });
+  });
+
+  // Continuous recognition over WebSocket: ws://host/api/recognize/stream
+  const wss = attachRecognizeStream(server, recognizer, {
+    clientToken: config.clientToken,
+    limiters,
+    trustedProxyHops: config.rateLimit.trustedProxyHops,
+    isOriginAllowed,
+    preprocessor,
+    workPool,
+    locales: defaultLocales,
+    maxSessionMs: config.streamMaxSessionMs,
+  });
+
+  handleShutdownSignals(server, {
+    timeoutMs: config.shutdownTimeoutMs,
+    inFlight,
+    // Keep-alive connections from the load balancer can still reach /api/ready while draining
+    onDrainStart: () => readiness.markDraining(),
+    stopBackgroundWork: () => {
+      // Streaming clients reconnect (to another instance) on "going away"
+      for (const client of wss.clients) client.close(1001, 'Server shutting down');
+      wss.close();
+      const cancelled = batchQueue.cancelAll();
+      if (cancelled > 0) log.info('cancelled batch jobs', { count: cancelled });
+    },
+    cleanup: () => {
+      const killed = killFfmpegProcesses();
+      const removed = removeOwnScratchFiles();
+      if (killed > 0 || removed > 0) log.info('stopped leftover work', { ffmpegKilled: killed, uploadsRemoved: removed });
+    },
+  });
+  return server;
+}
+
+// Tests import the app without listening
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  log.info('configuration', describeConfig(config));
+  if (config.corsOrigins.length === 0) log.warn('CORS_ORIGINS not set; allowing all origins');
+  start();
+}
@@ -0,0 +1,88 @@
+/**
+ * Graceful shutdown on SIGTERM/SIGINT.
+ * Cloud Run sends SIGTERM when it replaces an instance and SIGKILLs it 10 s later. Stop
+ * accepting connections, give in-flight requests until a deadline to finish, then kill
+ * any ffmpeg still running and remove this process's scratch files before exiting.
+ */
+
+import type { Server } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import { log } from './logger.js';
+
+/** Counts requests whose response hasn't finished yet. */
+export class InFlightTracker {
+  private active = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  get count(): number {
+    return this.active;
+  }
+
+  /** Express middleware counting each request until its response closes. */
+  track() {
+    return (_req: Request, res: Response, next: NextFunction) => {
+      this.active++;
+      res.on('close', () => {
+        this.active--;
+        if (this.active === 0) this.idleWaiters.splice(0).forEach((resolve) => resolve());
+      });
+      next();
+    };
+  }
+
+  /** Resolve true once nothing is in flight, or false when timeoutMs passes first. */
+  waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.active === 0) return Promise.resolve(true);
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      this.idleWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+}
+
+export interface ShutdownOptions {
+  /** How long in-flight requests get to finish. */
+  timeoutMs: number;
+  inFlight: InFlightTracker;
+  /** First step once a signal arrives, e.g. failing the readiness probe. */
+  onDrainStart: () => void;
+  /** Stop work that isn't an HTTP request (streams, batch jobs) once the server stops accepting. */
+  stopBackgroundWork: () => void;
+  /** Last step before exiting, after draining or at the deadline. */
+  cleanup: () => void;
+}
+
+/** Drain and exit on SIGTERM/SIGINT; a second signal exits at once. */
+export function handleShutdownSignals(server: Server, options: ShutdownOptions): void {
+  let shuttingDown = false;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      log.warn('signal received again; exiting without draining', { signal });
+      options.cleanup();
+      process.exit(1);
+    }
+    shuttingDown = true;
+    log.info('draining before shutdown', { signal, inFlight: options.inFlight.count, timeoutMs: options.timeoutMs });
+    options.onDrainStart();
+
+    // Refuse new connections; keep-alive connections close once their request is done
+    server.close();
+    server.closeIdleConnections();
+    options.stopBackgroundWork();
+
+    const drained = await options.inFlight.waitForIdle(options.timeoutMs);
+    if (!drained) {
+      log.warn('requests still running at the deadline; stopping them', { inFlight: options.inFlight.count });
+    }
+    options.cleanup();
+    log.info('shutdown complete');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', (signal) => void shutdown(signal));
+  process.on('SIGINT', (signal) => void shutdown(signal));
+}
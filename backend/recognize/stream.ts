@@ -0,0 +1,287 @@
+/**
+ * Streaming recognition over WebSocket.
+ * The client opens ws(s)://host/api/recognize/stream and sends raw 16 kHz mono s16le PCM
+ * as binary frames for as long as it listens. The server keeps a sliding window of the
+ * most recent audio, recognizes it every few seconds and pushes an event whenever the
+ * recognized song changes, so there is one mic stream and no gaps between clips.
+ *
+ * Server -> client messages (JSON):
+ *   { type: 'ready', sampleRate, windowSeconds, hopSeconds }
+ *   { type: 'track-changed', provider, cached, track, offsetSeconds, capturedAt }
+ *   { type: 'diagnostics', diagnostics }   (no match and the audio looks bad: quiet, clipped, noisy)
+ *   { type: 'error', error }
+ *   { type: 'rate-limited', error, retryAfterSeconds }   (then closed with RATE_LIMITED_CLOSE_CODE)
+ *
+ * Every recognized window counts against the rate limits, like an upload; a stream over
+ * them is told and closed. Sessions end after maxSessionMs, and the client reconnects.
+ *
+ * The optional `requestId` query param (generated by the frontend per stream) is logged
+ * with every window, like X-Request-Id on uploads. Optional `locale` and `metadataLocales`
+ * params pick the track metadata languages, like the upload's form fields.
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { s16LEToSamplesArray } from 'node-shazam';
+import { SAMPLE_RATE } from './audio.js';
+import type { Recognizer } from './recognizer.js';
+import type { Preprocessor } from './preprocess.js';
+import { checkClientToken, type ClientTokenOptions } from './client-token.js';
+import {
+  checkRateLimits,
+  clientIp,
+  retryAfterSeconds,
+  type RateLimitResult,
+  type RecognizeLimiters,
+} from './rate-limit.js';
+import type { WorkPool } from './work-pool.js';
+import { log, resolveRequestId, withRequestId } from './logger.js';
+import { parseLocaleRequest, type LocaleRequest } from './locales.js';
+
+export const STREAM_PATH = '/api/recognize/stream';
+/**
+ * Close code for connections over the rate limit (4000-4999 are for applications).
+ * Browsers hide the status of a refused handshake, so these are accepted, told how long
+ * to wait, and closed.
+ */
+export const RATE_LIMITED_CLOSE_CODE = 4429;
+
+/** Audio recognized per attempt. */
+const WINDOW_SECONDS = 5;
+/** New audio needed before the next attempt. */
+const HOP_SECONDS = 3;
+/** Shortest window worth recognizing at the start of a stream. */
+const MIN_WINDOW_SECONDS = 2.5;
+/** Largest binary frame accepted (~1 s of audio; the frontend sends ~85 ms per frame). */
+export const MAX_FRAME_BYTES = 32 * 1024;
+
+function send(socket: WebSocket, message: Record<string, unknown>) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+/** Tell the client how long to wait, then close with RATE_LIMITED_CLOSE_CODE. */
+function closeRateLimited(socket: WebSocket, result: RateLimitResult) {
+  const retryAfter = retryAfterSeconds(result);
+  log.warn('stream rate limited', { retryAfterSeconds: retryAfter });
+  send(socket, {
+    type: 'rate-limited',
+    error: `Too many recognition requests. Try again in ${retryAfter} seconds.`,
+    retryAfterSeconds: retryAfter,
+  });
+  socket.close(RATE_LIMITED_CLOSE_CODE, 'Too Many Requests');
+}
+
+/** One listening client: buffers its audio and recognizes the sliding window. */
+class StreamSession {
+  private window: number[] = [];
+  /** Samples received since the stream started. */
+  private received = 0;
+  /** Value of `received` at the last recognition attempt. */
+  private lastAttemptAt = 0;
+  private startedAt: number | null = null;
+  private running = false;
+  /** Set once the session is closed for the rate limit; later frames are dropped. */
+  private stopped = false;
+  private lastTrackKey: string | null = null;
+
+  constructor(
+    private socket: WebSocket,
+    private recognizer: Recognizer,
+    private preprocessor: Preprocessor,
+    private workPool: WorkPool,
+    private locales: LocaleRequest,
+    /** Counts one recognition against the connection's rate limits. */
+    private hitRateLimits: () => RateLimitResult
+  ) {}
+
+  push(frame: Buffer) {
+    if (this.stopped) return;
+    const samples = s16LEToSamplesArray(frame);
+    if (samples.length === 0) return;
+    if (this.startedAt === null) {
+      this.startedAt = Date.now() - (samples.length / SAMPLE_RATE) * 1000;
+    }
+
+    this.received += samples.length;
+    // Appended one by one: spreading a large frame into push() overflows the call stack
+    for (const sample of samples) this.window.push(sample);
+    const maxSamples = WINDOW_SECONDS * SAMPLE_RATE;
+    if (this.window.length > maxSamples) this.window.splice(0, this.window.length - maxSamples);
+
+    const isFirstAttempt = this.lastAttemptAt === 0;
+    const due = isFirstAttempt
+      ? this.window.length >= MIN_WINDOW_SECONDS * SAMPLE_RATE
+      : this.received - this.lastAttemptAt >= HOP_SECONDS * SAMPLE_RATE;
+    if (due && !this.running) void this.recognizeWindow();
+  }
+
+  private async recognizeWindow() {
+    this.running = true;
+    this.lastAttemptAt = this.received;
+    // Window start, measured from when the stream started
+    const capturedAt = Math.round(this.startedAt! + ((this.received - this.window.length) / SAMPLE_RATE) * 1000);
+    const samplesToRecognize = [...this.window];
+    const started = Date.now();
+
+    const limit = this.hitRateLimits();
+    if (!limit.allowed) {
+      log.debug('stream window finished', { outcome: 'rate-limited' });
+      this.stopped = true;
+      this.running = false;
+      closeRateLimited(this.socket, limit);
+      return;
+    }
+
+    // When the server is busy this window is skipped; the next hop tries again with fresher audio
+    const release = await this.workPool.acquire();
+    if (!release) {
+      log.warn('stream window finished', { outcome: 'shed', durationMs: Date.now() - started });
+      this.running = false;
+      return;
+    }
+
+    try {
+      const { samples, diagnostics } = this.preprocessor.run(samplesToRecognize);
+      const result = await this.recognizer.recognize(samples, capturedAt, this.locales);
+      const durationMs = Date.now() - started;
+      if (!result) {
+        log.debug('stream window finished', { outcome: 'no-match', durationMs, warnings: diagnostics.warnings });
+      }
+      if (!result && diagnostics.warnings.length > 0) {
+        send(this.socket, { type: 'diagnostics', diagnostics });
+      } else if (result && result.match.track.key === this.lastTrackKey) {
+        log.debug('stream window finished', { outcome: 'matched', durationMs, cached: result.cached });
+      } else if (result) {
+        log.info('stream window finished', {
+          outcome: 'track-changed',
+          durationMs,
+          provider: result.match.provider,
+          cached: result.cached,
+          trackKey: result.match.track.key,
+        });
+        this.lastTrackKey = result.match.track.key;
+        send(this.socket, {
+          type: 'track-changed',
+          provider: result.match.provider,
+          cached: result.cached,
+          track: result.match.track,
+          offsetSeconds: result.offsetSeconds,
+          capturedAt: result.capturedAt,
+        });
+      }
+    } catch (err) {
+      log.error('stream window failed', { durationMs: Date.now() - started, err });
+      send(this.socket, { type: 'error', error: err instanceof Error ? err.message : String(err) });
+    } finally {
+      release();
+      this.running = false;
+    }
+  }
+}
+
+export interface RecognizeStreamOptions {
+  /** Signed token checked from the `token` query param. */
+  clientToken: ClientTokenOptions;
+  /**
+   * Limits checked per connection attempt and per recognized window (IP, then signed
+   * client id or `clientToken` query param).
+   */
+  limiters: RecognizeLimiters;
+  /** Proxies in front of the server whose X-Forwarded-For entries are trusted. */
+  trustedProxyHops: number;
+  /** Browsers don't apply CORS to WebSockets, so the Origin header is checked here. */
+  isOriginAllowed: (origin: string | undefined) => boolean;
+  preprocessor: Preprocessor;
+  /** Shared with uploads, so streams count against the same concurrency limit. */
+  workPool: WorkPool;
+  /** Metadata languages for connections that don't name their own. */
+  locales: LocaleRequest;
+  /** Connections are closed (1000) after this long; the client reconnects with a fresh token. */
+  maxSessionMs: number;
+}
+
+/** Serve streaming recognition on the HTTP server the Express app listens on. */
+export function attachRecognizeStream(server: Server, recognizer: Recognizer, options: RecognizeStreamOptions): WebSocketServer {
+  /** Rate limit keys of each handshake and its result; one over the limit is answered once connected. */
+  const handshakes = new WeakMap<IncomingMessage, { ip: string; clientId: string | null; result: RateLimitResult }>();
+  const wss = new WebSocketServer({
+    server,
+    path: STREAM_PATH,
+    maxPayload: MAX_FRAME_BYTES,
+    verifyClient: ({ origin, req }, done) => {
+      if (!options.isOriginAllowed(origin)) {
+        done(false, 403, 'Origin not allowed');
+        return;
+      }
+      const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+      const locales = parseLocaleRequest(params.get('locale'), params.get('metadataLocales'), options.locales);
+      if (!locales.ok) {
+        done(false, 400, locales.error);
+        return;
+      }
+      const token = checkClientToken(options.clientToken, params.get('token'));
+      if (!token.ok) {
+        done(false, 401, token.error);
+        return;
+      }
+      const ip = clientIp(req, options.trustedProxyHops);
+      const clientId = token.clientId ?? params.get('clientToken');
+      handshakes.set(req, { ip, clientId, result: checkRateLimits(options.limiters, ip, clientId) });
+      done(true);
+    },
+  });
+
+  wss.on('connection', (socket, req) => {
+    const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+    const requestId = resolveRequestId(params.get('requestId'));
+    const { ip, clientId, result } = handshakes.get(req)!;
+    if (!result.allowed) {
+      withRequestId(requestId, () => closeRateLimited(socket, result));
+      return;
+    }
+    const connectedAt = Date.now();
+    // Already checked in verifyClient
+    const locales = parseLocaleRequest(params.get('locale'), params.get('metadataLocales'), options.locales);
+    const session = new StreamSession(
+      socket,
+      recognizer,
+      options.preprocessor,
+      options.workPool,
+      locales.ok ? locales.request : options.locales,
+      () => checkRateLimits(options.limiters, ip, clientId)
+    );
+    // Bounds what one connection (and its token, checked only at the handshake) can spend
+    const sessionTimer = setTimeout(() => {
+      withRequestId(requestId, () => log.info('stream session length reached', { maxSessionMs: options.maxSessionMs }));
+      socket.close(1000, 'Session length reached');
+    }, options.maxSessionMs);
+    // Socket events don't run in the connection's context, so each one re-enters it
+    withRequestId(requestId, () => log.info('stream connected'));
+    socket.on('message', (data, isBinary) => {
+      if (!isBinary) return;
+      withRequestId(requestId, () => {
+        // A throw here would escape the ws listener and take the whole process down
+        try {
+          session.push(data as Buffer);
+        } catch (err) {
+          log.error('stream frame failed', { err });
+          send(socket, { type: 'error', error: 'Could not process audio frame' });
+          socket.close(1011, 'Could not process audio frame');
+        }
+      });
+    });
+    socket.on('error', (err) => withRequestId(requestId, () => log.error('stream socket error', { err })));
+    socket.on('close', (code) => {
+      clearTimeout(sessionTimer);
+      withRequestId(requestId, () => log.info('stream closed', { code, durationMs: Date.now() - connectedAt }));
+    });
+    send(socket, {
+      type: 'ready',
+      sampleRate: SAMPLE_RATE,
+      windowSeconds: WINDOW_SECONDS,
+      hopSeconds: HOP_SECONDS,
+    });
+  });
+
+  return wss;
+}
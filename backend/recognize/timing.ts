@@ -0,0 +1,72 @@
+/**
+ * Playback timing for recognize responses.
+ * A match reports offsetSeconds (song position at the start of the clip) together with
+ * capturedAt (epoch ms when the clip started recording), so a client can work out the
+ * current song position as offsetSeconds + (now - capturedAt) / 1000.
+ */
+
+import { SECONDS_PER_PASS, type Landmark } from './fingerprint.js';
+
+/** How far a client clock may run ahead of ours before we stop trusting it. */
+const MAX_CLOCK_AHEAD_MS = 60 * 1000;
+/** Oldest capture we accept; anything older is a stale or bogus value. */
+const MAX_CAPTURE_AGE_MS = 10 * 60 * 1000;
+/** Landmarks that must agree on a shift before an offset is carried over (as in fingerprint-db). */
+const MIN_ALIGNED_VOTES = 12;
+
+/**
+ * Use the client-reported capture start when it is plausible, otherwise estimate it
+ * as "the clip ended when the upload arrived".
+ */
+export function resolveCapturedAt(reported: unknown, clipSeconds: number, receivedAt = Date.now()): number {
+  const value = typeof reported === 'string' ? Number(reported) : reported;
+  if (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value <= receivedAt + MAX_CLOCK_AHEAD_MS &&
+    value >= receivedAt - MAX_CAPTURE_AGE_MS
+  ) {
+    return Math.round(value);
+  }
+  return Math.round(receivedAt - clipSeconds * 1000);
+}
+
+/** Round to milliseconds and clamp at 0; null when the provider gave no offset. */
+export function normalizeOffset(offsetSeconds: number | undefined | null): number | null {
+  if (offsetSeconds == null || !Number.isFinite(offsetSeconds)) return null;
+  return Math.max(0, Math.round(offsetSeconds * 1000) / 1000);
+}
+
+/**
+ * Carry the offset measured on a reference clip over to another clip of the same audio,
+ * by the shift their shared landmarks agree on. The clips may come from different clients
+ * at different times, so capture times say nothing about it. Null without a clear shift.
+ */
+export function realignOffset(offsetSeconds: number | undefined, reference: Landmark[], clip: Landmark[]): number | null {
+  if (offsetSeconds == null) return null;
+  const referenceTimes = new Map<number, number[]>();
+  for (const { hash, time } of reference) {
+    const times = referenceTimes.get(hash);
+    if (times) times.push(time);
+    else referenceTimes.set(hash, [time]);
+  }
+
+  // Votes per (reference time - clip time); the true shift collects most of them
+  const votes = new Map<number, number>();
+  let bestShift = 0;
+  let bestVotes = 0;
+  for (const { hash, time } of clip) {
+    for (const referenceTime of referenceTimes.get(hash) ?? []) {
+      const shift = referenceTime - time;
+      const count = (votes.get(shift) ?? 0) + 1;
+      votes.set(shift, count);
+      if (count > bestVotes) {
+        bestShift = shift;
+        bestVotes = count;
+      }
+    }
+  }
+  if (bestVotes < MIN_ALIGNED_VOTES) return null;
+  // The clip starts bestShift passes into the reference clip
+  return normalizeOffset(offsetSeconds + bestShift * SECONDS_PER_PASS);
+}
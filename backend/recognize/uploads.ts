@@ -0,0 +1,59 @@
+/**
+ * Upload scratch directory.
+ * Clips are decoded from memory, so only MP4 fallbacks and long batch uploads touch
+ * disk here. A process removes its own files on shutdown; anything left over from a
+ * crashed process is swept on startup.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export const UPLOAD_DIR = path.join(os.tmpdir(), 'song-to-bolly-beat-uploads');
+
+/** Files younger than this may belong to another process sharing the temp dir. */
+const SWEEP_MIN_AGE_MS = 60 * 1000;
+
+export function ensureUploadDir(): void {
+  if (!fs.existsSync(UPLOAD_DIR)) {
+    fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+  }
+}
+
+/** Remove orphaned files from earlier runs; returns how many were deleted. */
+export function sweepUploadDir(): number {
+  const cutoff = Date.now() - SWEEP_MIN_AGE_MS;
+  let removed = 0;
+  for (const name of fs.readdirSync(UPLOAD_DIR)) {
+    const filePath = path.join(UPLOAD_DIR, name);
+    try {
+      const stat = fs.statSync(filePath);
+      if (stat.isFile() && stat.mtimeMs < cutoff) {
+        fs.unlinkSync(filePath);
+        removed++;
+      }
+    } catch (_) {}
+  }
+  return removed;
+}
+
+/** Scratch files carry the pid, so a process can clean up its own without touching others'. */
+const OWN_PREFIX = `recording-${process.pid}-`;
+
+/** Path for a new scratch file in the upload dir. */
+export function scratchPath(ext: string): string {
+  return path.join(UPLOAD_DIR, `${OWN_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}${ext}`);
+}
+
+/** Remove every scratch file this process created (on shutdown); returns how many. */
+export function removeOwnScratchFiles(): number {
+  let removed = 0;
+  for (const name of fs.existsSync(UPLOAD_DIR) ? fs.readdirSync(UPLOAD_DIR) : []) {
+    if (!name.startsWith(OWN_PREFIX)) continue;
+    try {
+      fs.unlinkSync(path.join(UPLOAD_DIR, name));
+      removed++;
+    } catch (_) {}
+  }
+  return removed;
+}
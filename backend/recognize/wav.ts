@@ -0,0 +1,90 @@
+/**
+ * Minimal RIFF/WAVE reader so WAV uploads can be decoded without spawning ffmpeg.
+ * Handles 8/16/24/32-bit integer PCM and 32-bit float; anything else returns null
+ * and goes through ffmpeg instead.
+ */
+
+export interface WavAudio {
+  sampleRate: number;
+  /** Mono mixdown in the range [-1, 1]. */
+  samples: Float32Array;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export function isWav(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WAVE'
+  );
+}
+
+export function parseWav(buffer: Buffer): WavAudio | null {
+  if (!isWav(buffer)) return null;
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let data: Buffer | null = null;
+
+  // Walk the chunks; each is a 4-byte id, 4-byte size, then the payload padded to even length
+  let pos = 12;
+  while (pos + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    const body = pos + 8;
+    if (id === 'fmt ' && body + 16 <= buffer.length) {
+      format = buffer.readUInt16LE(body);
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      bitsPerSample = buffer.readUInt16LE(body + 14);
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26 && body + 26 <= buffer.length) {
+        format = buffer.readUInt16LE(body + 24);
+      }
+    } else if (id === 'data') {
+      // Streaming writers leave the size at 0 or 0xffffffff; take the rest of the file
+      const end = size === 0 || body + size > buffer.length ? buffer.length : body + size;
+      data = buffer.subarray(body, end);
+      break;
+    }
+    pos = body + size + (size % 2);
+  }
+
+  if (!data || channels === 0 || sampleRate === 0) return null;
+  const isPcm = format === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample);
+  const isFloat = format === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32;
+  if (!isPcm && !isFloat) return null;
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(data.length / frameSize);
+  const samples = new Float32Array(frames);
+
+  const read = (offset: number): number => {
+    if (isFloat) return data!.readFloatLE(offset);
+    switch (bitsPerSample) {
+      case 8:
+        return (data!.readUInt8(offset) - 128) / 128;
+      case 16:
+        return data!.readInt16LE(offset) / 32768;
+      case 24:
+        return data!.readIntLE(offset, 3) / 8388608;
+      default:
+        return data!.readInt32LE(offset) / 2147483648;
+    }
+  };
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += read(frame * frameSize + channel * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return { sampleRate, samples };
+}
@@ -0,0 +1,93 @@
+/**
+ * Bounded concurrency for recognition work (ffmpeg decode, preprocessing, provider calls).
+ * A burst of clients waits in line here instead of forking an ffmpeg each and running the
+ * container out of memory. Work that waits longer than maxWaitMs, or arrives to a full
+ * line, is shed so the caller can answer 503 right away.
+ */
+
+import { workQueueDepth, workRunning, workShed } from './metrics.js';
+import { log } from './logger.js';
+
+export interface WorkPoolOptions {
+  /** Pieces of work running at once. */
+  concurrency: number;
+  /** Longest wait for a slot before giving up. */
+  maxWaitMs: number;
+  /** Waiting work beyond this is shed immediately. */
+  maxQueued: number;
+}
+
+/** Give the slot back; calling it again does nothing. */
+export type Release = () => void;
+
+interface Waiter {
+  grant: (release: Release) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class WorkPool {
+  private running = 0;
+  private queue: Waiter[] = [];
+
+  constructor(private options: WorkPoolOptions) {}
+
+  get stats() {
+    return { running: this.running, queued: this.queue.length };
+  }
+
+  /** Wait for a slot: resolves with its release function, or null when the work is shed. */
+  acquire(): Promise<Release | null> {
+    if (this.running < Math.max(1, this.options.concurrency)) {
+      this.running++;
+      this.report();
+      return Promise.resolve(this.releaser());
+    }
+    if (this.queue.length >= this.options.maxQueued) {
+      workShed.inc({ reason: 'queue-full' });
+      log.warn('work queue full; shedding', { running: this.running, queued: this.queue.length });
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      const waiter: Waiter = {
+        grant: resolve,
+        timer: setTimeout(() => {
+          this.queue = this.queue.filter((queued) => queued !== waiter);
+          this.report();
+          workShed.inc({ reason: 'timeout' });
+          log.warn('work waited too long; shedding', {
+            waitedMs: this.options.maxWaitMs,
+            running: this.running,
+            queued: this.queue.length,
+          });
+          resolve(null);
+        }, this.options.maxWaitMs),
+      };
+      this.queue.push(waiter);
+      this.report();
+      log.info('work queued', { running: this.running, queued: this.queue.length });
+    });
+  }
+
+  private releaser(): Release {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      // Hand the slot straight to the longest waiter
+      const next = this.queue.shift();
+      if (next) {
+        clearTimeout(next.timer);
+        next.grant(this.releaser());
+      } else {
+        this.running--;
+      }
+      this.report();
+    };
+  }
+
+  private report() {
+    workRunning.set(this.running);
+    workQueueDepth.set(this.queue.length);
+  }
+}
@@ -14,6 +14,7 @@ cd "$SCRIPT_DIR"
 # List of functions to deploy (recognition is direct to Node server; no proxy)
 FUNCTIONS=(
   "youtube-search"
+  "recognize-token"
 )
 
 # Deploy each function
@@ -0,0 +1,48 @@
+/**
+ * Structured logs for the Edge Functions, in the same JSON shape as the recognize server
+ * (recognize/logger.ts): one object per line, tagged with the X-Request-Id the frontend
+ * sent, so a recognition and the video search it led to share one id.
+ */
+
+import { REQUEST_ID_HEADER } from "../../../contract/headers.ts";
+
+type Level = 'info' | 'warn' | 'error';
+type Fields = Record<string, unknown>;
+
+const SEVERITY: Record<Level, string> = { info: 'INFO', warn: 'WARNING', error: 'ERROR' };
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export interface RequestLogger {
+  requestId: string;
+  /** Milliseconds since the request arrived. */
+  elapsedMs(): number;
+  info(message: string, fields?: Fields): void;
+  warn(message: string, fields?: Fields): void;
+  error(message: string, fields?: Fields): void;
+}
+
+/** Logger for one request to fn; takes the client's X-Request-Id or makes one up. */
+export function requestLogger(req: Request, fn: string): RequestLogger {
+  const header = req.headers.get(REQUEST_ID_HEADER);
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID();
+  const started = Date.now();
+
+  const write = (level: Level, message: string, fields: Fields = {}) => {
+    const entry: Fields = { severity: SEVERITY[level], level, time: new Date().toISOString(), message, function: fn, requestId };
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+    }
+    const line = JSON.stringify(entry);
+    if (level === 'info') console.log(line);
+    else if (level === 'warn') console.warn(line);
+    else console.error(line);
+  };
+
+  return {
+    requestId,
+    elapsedMs: () => Date.now() - started,
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Ranking of youtube-search results by how useful they are for learning the song's hookstep.
+ * YouTube's relevance order mixes tutorials with lyric videos, reactions and unrelated
+ * covers. Each video is scored from its title, length, shape, popularity and channel, and
+ * keeps the reasons so a ranking can be explained and the weights tuned.
+ *
+ * No Deno APIs here: the backend tests load this file under Node.
+ */
+
+import type { YouTubeVideo } from "../../../contract/youtube.ts";
+
+/** What videos.list says about a video; missing when that call failed or for old cache entries. */
+export interface VideoSignals {
+  channelId?: string;
+  durationSeconds?: number;
+  /** Taller than wide, from the player's embed size. */
+  vertical?: boolean;
+  viewCount?: number;
+  likeCount?: number;
+}
+
+export type CandidateVideo = YouTubeVideo & VideoSignals;
+
+/** The parts of a videos.list item (part=contentDetails,statistics,player) the signals come from. */
+export interface VideoDetails {
+  contentDetails?: { duration?: string };
+  /** Counts come as strings; hidden ones are absent. */
+  statistics?: { viewCount?: string; likeCount?: string };
+  /** Only returned with an embed size when the request sets maxHeight or maxWidth. */
+  player?: { embedWidth?: number | string; embedHeight?: number | string };
+}
+
+export interface RankingOptions {
+  /** Matched against video titles; the search query when the request has no songTitle. */
+  songTitle: string;
+  /** Channel ids or titles (case-insensitive) whose videos are boosted. */
+  channelAllowlist: string[];
+}
+
+/** Title words that point at someone teaching or performing the dance. */
+const DANCE_KEYWORDS: [RegExp, string, number][] = [
+  [/\bhook\s?-?steps?\b/i, 'hookstep', 4],
+  [/\btutorial\b/i, 'tutorial', 3],
+  [/\bchoreo(graphy|grapher)?\b/i, 'choreography', 3],
+  [/\beasy\s+steps?\b/i, 'easy steps', 2],
+];
+
+/** Title words that point at a video with nothing to dance along to. */
+const OFF_TOPIC_KEYWORDS: [RegExp, string][] = [
+  [/\blyric(s|al)?\b/i, 'lyrics'],
+  [/\breaction\b/i, 'reaction'],
+  [/\bkaraoke\b/i, 'karaoke'],
+  [/\binstrumental\b/i, 'instrumental'],
+  [/\b(slowed|reverb)\b/i, 'slowed/reverb'],
+  [/\b(full\s+)?audio\b/i, 'audio only'],
+];
+const OFF_TOPIC_WEIGHT = -5;
+
+const SONG_TITLE_WEIGHT = 3;
+const PARTIAL_SONG_TITLE_WEIGHT = 1;
+const SHORT_WEIGHT = 1;
+const LONG_WEIGHT = -2;
+const VERTICAL_WEIGHT = 1;
+/** Up to this much for views: nothing at 1k, the full amount at 1M. */
+const MAX_VIEWS_WEIGHT = 3;
+const LIKED_WEIGHT = 1;
+/** Likes per view above which a video counts as well liked. */
+const LIKED_RATIO = 0.04;
+const ALLOWLIST_WEIGHT = 3;
+
+/** Lowercase words of a title, without bracketed parts like "(From "Movie")" or "[Official Video]". */
+function titleWords(title: string): string[] {
+  return title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function formatCount(count: number): string {
+  if (count >= 1_000_000) return `${Math.round(count / 100_000) / 10}M`;
+  if (count >= 1_000) return `${Math.round(count / 100) / 10}k`;
+  return String(count);
+}
+
+/** ISO 8601 duration (PT1M30S) in seconds; 0 when it doesn't parse. */
+export function parseDuration(duration: string): number {
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return 0;
+  const hours = parseInt(match[1] || '0', 10);
+  const minutes = parseInt(match[2] || '0', 10);
+  const seconds = parseInt(match[3] || '0', 10);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Ranking signals of a videos.list item. contentDetails.dimension is only ever '2d' or
+ * '3d', so the shape comes from the player's embed size instead.
+ */
+export function videoSignals(item: VideoDetails): VideoSignals {
+  const { contentDetails, statistics, player } = item;
+  return {
+    ...(contentDetails?.duration ? { durationSeconds: parseDuration(contentDetails.duration) } : {}),
+    ...(player?.embedWidth && player?.embedHeight
+      ? { vertical: Number(player.embedHeight) > Number(player.embedWidth) }
+      : {}),
+    ...(statistics?.viewCount !== undefined ? { viewCount: Number(statistics.viewCount) } : {}),
+    ...(statistics?.likeCount !== undefined ? { likeCount: Number(statistics.likeCount) } : {}),
+  };
+}
+
+/** Score and reasons for one video; reasons read like "hookstep in title (+4)". */
+export function scoreVideo(video: CandidateVideo, options: RankingOptions): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+  const add = (weight: number, reason: string) => {
+    if (weight === 0) return;
+    score += weight;
+    reasons.push(`${reason} (${weight > 0 ? '+' : ''}${Math.round(weight * 10) / 10})`);
+  };
+
+  for (const [pattern, keyword, weight] of DANCE_KEYWORDS) {
+    if (pattern.test(video.title)) add(weight, `${keyword} in title`);
+  }
+  for (const [pattern, keyword] of OFF_TOPIC_KEYWORDS) {
+    if (pattern.test(video.title)) add(OFF_TOPIC_WEIGHT, `${keyword} in title`);
+  }
+
+  const songWords = new Set(titleWords(options.songTitle));
+  if (songWords.size > 0) {
+    const videoWords = new Set(titleWords(video.title));
+    const found = [...songWords].filter((word) => videoWords.has(word)).length;
+    if (found === songWords.size) add(SONG_TITLE_WEIGHT, 'song title in title');
+    else if (found * 2 >= songWords.size) add(PARTIAL_SONG_TITLE_WEIGHT, 'part of song title in title');
+  }
+
+  if (video.durationSeconds !== undefined) {
+    if (video.durationSeconds <= 60) add(SHORT_WEIGHT, `short (${video.durationSeconds} s)`);
+    else if (video.durationSeconds > 180) add(LONG_WEIGHT, `long (${video.durationSeconds} s)`);
+  }
+  if (video.vertical) add(VERTICAL_WEIGHT, 'vertical');
+
+  if (video.viewCount !== undefined && video.viewCount > 0) {
+    const weight = Math.min(MAX_VIEWS_WEIGHT, Math.max(0, Math.log10(video.viewCount) - 3));
+    add(weight, `${formatCount(video.viewCount)} views`);
+    if (video.likeCount !== undefined && video.likeCount / video.viewCount >= LIKED_RATIO) {
+      add(LIKED_WEIGHT, `${formatCount(video.likeCount)} likes`);
+    }
+  }
+
+  const allowlist = options.channelAllowlist.map((entry) => entry.toLowerCase());
+  if (
+    (video.channelId && allowlist.includes(video.channelId.toLowerCase())) ||
+    allowlist.includes(video.channelTitle.trim().toLowerCase())
+  ) {
+    add(ALLOWLIST_WEIGHT, 'allowlisted channel');
+  }
+
+  return { score: Math.round(score * 10) / 10, reasons };
+}
+
+/**
+ * Videos best first, each with its score and reasons; ties keep YouTube's order. The
+ * signals used for scoring are dropped from the result.
+ */
+export function rankVideos(videos: CandidateVideo[], options: RankingOptions): YouTubeVideo[] {
+  return videos
+    .map((candidate) => {
+      const { channelId, durationSeconds, vertical, viewCount, likeCount, ...video } = candidate;
+      return { ...video, ...scoreVideo(candidate, options) };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,72 @@
+/**
+ * Client ids and token issuance limits for the recognize-token function.
+ * The recognize server rate limits per client on the token's sub, so the id must be one
+ * the browser can't make up: it is issued here and stored in recognize_clients, and a
+ * browser only keeps an id the table knows. Tokens are counted per client IP in
+ * recognize_token_issuance, so a client that drops its id for a fresh bucket runs out.
+ */
+
+import type { RequestLogger } from "./logger.ts";
+import type { SupabaseClient } from "./supabase.ts";
+
+/** Tokens per IP per window; guests at one venue can share an IP, each refreshing every 10 minutes. */
+const DEFAULT_MAX_PER_IP = 100;
+const DEFAULT_WINDOW_SECONDS = 60 * 60;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface IssuanceLimit {
+  allowed: boolean;
+  /** Seconds until the window resets; 0 when allowed. */
+  retryAfterSeconds: number;
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** Client IP as Supabase's gateway saw it (first X-Forwarded-For entry), or null. */
+export function requestIp(req: Request): string | null {
+  return req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+}
+
+/** Stored instead of the IP: the first 12 hex digits of its SHA-256. */
+export async function ipKey(ip: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ip)));
+  return Array.from(digest.slice(0, 6), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Count a token against the IP's window (RECOGNIZE_TOKEN_MAX_PER_IP per
+ * RECOGNIZE_TOKEN_WINDOW_SECONDS). A failed count is logged and lets the token through.
+ */
+export async function countTokenIssued(
+  client: SupabaseClient,
+  ip: string,
+  log: RequestLogger,
+  now = Date.now()
+): Promise<IssuanceLimit> {
+  const windowMs = numberFromEnv('RECOGNIZE_TOKEN_WINDOW_SECONDS', DEFAULT_WINDOW_SECONDS) * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const { data, error } = await client.rpc('count_recognize_token', {
+    p_ip_key: await ipKey(ip),
+    p_window_start: new Date(windowStart).toISOString(),
+  });
+  if (error) {
+    log.warn('token issuance count failed; issuing anyway', { err: error });
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+  if (Number(data) <= numberFromEnv('RECOGNIZE_TOKEN_MAX_PER_IP', DEFAULT_MAX_PER_IP)) {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+  return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000)) };
+}
+
+/** The requested id when recognize_clients has it (marked seen), otherwise a newly stored one. */
+export async function issueClientId(client: SupabaseClient, requested: unknown): Promise<string> {
+  const { data, error } = await client.rpc('recognize_client_id', {
+    p_client_id: typeof requested === 'string' && UUID_PATTERN.test(requested) ? requested : null,
+  });
+  if (error) throw error;
+  return data as string;
+}
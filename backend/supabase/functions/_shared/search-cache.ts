@@ -0,0 +1,126 @@
+/**
+ * Read-through cache of youtube-search results in the youtube_search_cache table.
+ * A search costs 100 quota units; the same song gets recognized again and again over an
+ * evening, so its results are reused until they expire. Expired entries are kept for a
+ * stale window and served when a refresh from YouTube fails (quota exhausted, outage);
+ * each write deletes entries past that window, so distinct queries don't pile up.
+ */
+
+import type { YouTubeSearchCacheStatus } from "../../../contract/youtube.ts";
+import type { RequestLogger } from "./logger.ts";
+import type { CandidateVideo } from "./ranking.ts";
+import type { SupabaseClient } from "./supabase.ts";
+
+/** How long results are served without asking YouTube again. */
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+/** How long after expiring results may still be served as `stale`, before they are deleted. */
+const DEFAULT_STALE_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SearchParams {
+  maxResults: number;
+  videoDuration: string;
+  pageToken?: string;
+}
+
+/** Unranked, with their ranking signals, so a ranking change applies to cached results too. */
+export interface SearchResults {
+  videos: CandidateVideo[];
+  totalResults: number;
+  nextPageToken?: string;
+}
+
+/** Same key for queries that differ only in case, spacing or Unicode form. */
+export function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function searchCacheKey(query: string, params: SearchParams): string {
+  return [normalizeQuery(query), params.maxResults, params.videoDuration, params.pageToken ?? ''].join('|');
+}
+
+function secondsFromEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function ttlSeconds(): number {
+  return secondsFromEnv('YOUTUBE_SEARCH_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS);
+}
+
+/** Entries that expired before this are no longer served, and are deleted. */
+function staleCutoff(now: number): Date {
+  return new Date(now - secondsFromEnv('YOUTUBE_SEARCH_CACHE_STALE_SECONDS', DEFAULT_STALE_SECONDS) * 1000);
+}
+
+/** Delete entries past the stale window; runs on each write, since every new query adds a row. */
+async function purgeStaleEntries(client: SupabaseClient, log: RequestLogger): Promise<void> {
+  try {
+    const { error, count } = await client
+      .from('youtube_search_cache')
+      .delete({ count: 'exact' })
+      .lt('expires_at', staleCutoff(Date.now()).toISOString());
+    if (error) throw error;
+    if (count) log.info('purged stale search cache entries', { count });
+  } catch (err) {
+    log.warn('search cache purge failed', { err });
+  }
+}
+
+/**
+ * Cached results when fresh; otherwise fetch from YouTube and store them. Without a client
+ * the cache is bypassed; cache errors are logged and never fail the search.
+ */
+export async function cachedSearch(
+  client: SupabaseClient | null,
+  query: string,
+  params: SearchParams,
+  log: RequestLogger,
+  fetchResults: () => Promise<SearchResults>
+): Promise<SearchResults & { cache: YouTubeSearchCacheStatus }> {
+  if (!client) return { ...(await fetchResults()), cache: 'bypass' };
+
+  const key = searchCacheKey(query, params);
+  let cached: { response: SearchResults; expires_at: string } | null = null;
+  let readFailed = false;
+  try {
+    const { data, error } = await client
+      .from('youtube_search_cache')
+      .select('response, expires_at')
+      .eq('cache_key', key)
+      .maybeSingle();
+    if (error) throw error;
+    // Past the stale window; the next write deletes it
+    if (data && Date.parse(data.expires_at) > staleCutoff(Date.now()).getTime()) cached = data;
+  } catch (err) {
+    readFailed = true;
+    log.warn('search cache read failed', { err });
+  }
+
+  if (cached && Date.parse(cached.expires_at) > Date.now()) return { ...cached.response, cache: 'hit' };
+
+  let results: SearchResults;
+  try {
+    results = await fetchResults();
+  } catch (err) {
+    if (!cached) throw err;
+    log.warn('serving stale search results; refresh failed', { err });
+    return { ...cached.response, cache: 'stale' };
+  }
+
+  try {
+    const now = new Date();
+    const { error } = await client.from('youtube_search_cache').upsert({
+      cache_key: key,
+      query: normalizeQuery(query),
+      params,
+      response: results,
+      expires_at: new Date(now.getTime() + ttlSeconds() * 1000).toISOString(),
+      updated_at: now.toISOString(),
+    });
+    if (error) throw error;
+  } catch (err) {
+    log.warn('search cache write failed', { err });
+  }
+  await purgeStaleEntries(client, log);
+  return { ...results, cache: readFailed ? 'bypass' : 'miss' };
+}
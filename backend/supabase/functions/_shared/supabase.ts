@@ -0,0 +1,15 @@
+/**
+ * Supabase client for the functions' own tables (youtube_search_cache, youtube_api_quota).
+ * Those tables have row level security with no policies, so only the service role can use them.
+ */
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type { SupabaseClient };
+
+/** Service-role client from the function's environment, or null when it isn't set. */
+export function serviceClient(): SupabaseClient | null {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return url && key ? createClient(url, key, { auth: { persistSession: false } }) : null;
+}
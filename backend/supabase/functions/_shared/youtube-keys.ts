@@ -0,0 +1,177 @@
+/**
+ * YouTube Data API keys and their daily quota.
+ * Each key gets 10,000 units a day, reset at midnight Pacific time. Estimated spend is
+ * recorded per key in youtube_api_quota; a call goes to the key with the most quota left
+ * and moves on to the next one when YouTube answers quotaExceeded.
+ */
+
+import type { YouTubeSearchFailure } from "../../../contract/youtube.ts";
+import type { RequestLogger } from "./logger.ts";
+import type { SupabaseClient } from "./supabase.ts";
+
+/** YouTube's default daily quota per project; YOUTUBE_DAILY_QUOTA overrides it. */
+const DEFAULT_DAILY_QUOTA = 10_000;
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+/** YouTube error reasons that mean the key is out of quota for the day. */
+const QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded'];
+
+export interface ApiKey {
+  /** Logged and stored instead of the key. */
+  id: string;
+  key: string;
+}
+
+/** The parts of a YouTube Data API error body read here. */
+export interface YouTubeErrorBody {
+  error?: {
+    message?: string;
+    errors?: { reason?: string }[];
+  };
+}
+
+/** A youtube_api_quota row, as keysByRemainingQuota selects it. */
+interface QuotaRow {
+  key_id: string;
+  units_used: number;
+  exhausted_at: string | null;
+}
+
+/** YouTube refused a call because the key's quota is used up. */
+export class QuotaExceededError extends Error {}
+
+/** Every configured key is out of quota until the next reset. */
+export class QuotaExhaustedError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super('YouTube search quota is used up for today');
+  }
+}
+
+/** True for a YouTube error body that says the key is out of quota. */
+export function isQuotaError(errorBody: YouTubeErrorBody | null | undefined): boolean {
+  return (errorBody?.error?.errors ?? []).some((error) => QUOTA_REASONS.includes(error?.reason ?? ''));
+}
+
+/** The 429 youtube-search answers with once every key is out of quota. */
+export function quotaExhaustedResponse(err: QuotaExhaustedError, headers: Record<string, string>): Response {
+  const body: YouTubeSearchFailure = {
+    success: false,
+    error: err.message,
+    code: 'QUOTA_EXHAUSTED',
+    retryAfterSeconds: err.retryAfterSeconds,
+  };
+  return new Response(JSON.stringify(body), {
+    status: 429,
+    headers: { ...headers, 'Retry-After': String(err.retryAfterSeconds) },
+  });
+}
+
+/** Keys from YOUTUBE_API_KEYS (comma-separated) and YOUTUBE_API_KEY, in that order. */
+export async function configuredApiKeys(): Promise<ApiKey[]> {
+  const keys = [
+    ...(Deno.env.get('YOUTUBE_API_KEYS') ?? '').split(','),
+    Deno.env.get('YOUTUBE_API_KEY') ?? '',
+  ].map((key) => key.trim()).filter(Boolean);
+
+  return Promise.all(
+    [...new Set(keys)].map(async (key) => {
+      const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+      const id = Array.from(digest.slice(0, 6), (byte) => byte.toString(16).padStart(2, '0')).join('');
+      return { id, key };
+    })
+  );
+}
+
+function pacificClock(now: Date): Record<string, string> {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: QUOTA_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  return Object.fromEntries(parts.map((part) => [part.type, part.value]));
+}
+
+/** The quota day now falls in, as YYYY-MM-DD. */
+export function quotaDay(now = new Date()): string {
+  const { year, month, day } = pacificClock(now);
+  return `${year}-${month}-${day}`;
+}
+
+/** Seconds until quota resets at midnight Pacific time (an hour off on DST change days). */
+export function secondsUntilQuotaReset(now = new Date()): number {
+  const { hour, minute, second } = pacificClock(now);
+  return 24 * 60 * 60 - (Number(hour) * 3600 + Number(minute) * 60 + Number(second));
+}
+
+function dailyQuota(): number {
+  const value = Number(Deno.env.get('YOUTUBE_DAILY_QUOTA'));
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_DAILY_QUOTA;
+}
+
+/**
+ * Keys that can afford cost today, most quota left first. Without a client (or when the
+ * table can't be read) every key is tried in configured order.
+ */
+async function keysByRemainingQuota(client: SupabaseClient | null, keys: ApiKey[], cost: number, log: RequestLogger) {
+  if (!client) return keys;
+  const { data, error } = await client
+    .from('youtube_api_quota')
+    .select('key_id, units_used, exhausted_at')
+    .eq('quota_day', quotaDay())
+    .in('key_id', keys.map((key) => key.id));
+  if (error) {
+    log.warn('quota read failed; trying keys in order', { err: error });
+    return keys;
+  }
+
+  const usage = new Map<string, QuotaRow>(((data ?? []) as QuotaRow[]).map((row) => [row.key_id, row]));
+  const remaining = (key: ApiKey) => dailyQuota() - (usage.get(key.id)?.units_used ?? 0);
+  return keys
+    .filter((key) => !usage.get(key.id)?.exhausted_at && remaining(key) >= cost)
+    .sort((a, b) => remaining(b) - remaining(a));
+}
+
+async function recordSpend(client: SupabaseClient | null, key: ApiKey, units: number, exhausted: boolean, log: RequestLogger) {
+  if (!client) return;
+  const { error } = await client.rpc('spend_youtube_quota', {
+    p_key_id: key.id,
+    p_quota_day: quotaDay(),
+    p_units: units,
+    p_exhausted: exhausted,
+  });
+  if (error) log.warn('quota write failed', { keyId: key.id, err: error });
+}
+
+/**
+ * Run call with the key that has the most quota left, recording cost against it. A key
+ * YouTube reports out of quota is marked exhausted for the day and the next one is tried.
+ * Other errors are rethrown, after recording cost too: YouTube charges failed calls.
+ * Throws QuotaExhaustedError when no key is left.
+ */
+export async function withApiKey<T>(
+  client: SupabaseClient | null,
+  keys: ApiKey[],
+  cost: number,
+  log: RequestLogger,
+  call: (key: string) => Promise<T>
+): Promise<T> {
+  for (const key of await keysByRemainingQuota(client, keys, cost, log)) {
+    try {
+      const result = await call(key.key);
+      await recordSpend(client, key, cost, false, log);
+      return result;
+    } catch (err) {
+      if (!(err instanceof QuotaExceededError)) {
+        await recordSpend(client, key, cost, false, log);
+        throw err;
+      }
+      log.warn('YouTube API key out of quota; trying the next one', { keyId: key.id });
+      await recordSpend(client, key, 0, true, log);
+    }
+  }
+  throw new QuotaExhaustedError(secondsUntilQuotaReset());
+}
@@ -0,0 +1,128 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { REQUEST_ID_HEADER } from "../../../contract/headers.ts";
+import { requestLogger } from "../_shared/logger.ts";
+import { countTokenIssued, issueClientId, requestIp } from "../_shared/recognize-clients.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
+  'Access-Control-Expose-Headers': 'x-request-id, retry-after',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Max-Age': '86400',
+};
+
+// Tokens are short-lived; the frontend refreshes them before they expire
+const DEFAULT_TTL_SECONDS = 600;
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64urlJson(value: unknown): string {
+  return base64url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+// HS256 JWT, verified by the recognize server with the same secret (recognize/client-token.ts)
+async function signToken(secret: string, claims: Record<string, unknown>): Promise<string> {
+  const unsigned = `${base64urlJson({ alg: 'HS256', typ: 'JWT' })}.${base64urlJson(claims)}`;
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${base64url(new Uint8Array(signature))}`;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { 
+      status: 204,
+      headers: corsHeaders 
+    });
+  }
+
+  const log = requestLogger(req, 'recognize-token');
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json', [REQUEST_ID_HEADER]: log.requestId };
+
+  try {
+    const secret = Deno.env.get('RECOGNIZE_TOKEN_SECRET');
+    if (!secret) {
+      log.error('RECOGNIZE_TOKEN_SECRET not configured in Supabase secrets');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Recognize token secret not configured' }),
+        { 
+          status: 500, 
+          headers: jsonHeaders 
+        }
+      );
+    }
+
+    // Client ids and issuance counts live in Supabase; without them the sub can't be trusted
+    const client = serviceClient();
+    if (!client) {
+      log.error('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Recognize token storage not configured' }),
+        { status: 500, headers: jsonHeaders }
+      );
+    }
+
+    const ip = requestIp(req);
+    if (ip) {
+      const limit = await countTokenIssued(client, ip, log);
+      if (!limit.allowed) {
+        log.warn('token issuance rate limited', { retryAfterSeconds: limit.retryAfterSeconds });
+        return new Response(
+          JSON.stringify({ success: false, error: 'Too many token requests', retryAfterSeconds: limit.retryAfterSeconds }),
+          { status: 429, headers: { ...jsonHeaders, 'Retry-After': String(limit.retryAfterSeconds) } }
+        );
+      }
+    }
+
+    // Body is optional: { clientId } keeps an id issued earlier; unknown ids get a new one
+    const body = await req.json().catch(() => ({}));
+    const clientId = await issueClientId(client, body?.clientId);
+
+    const ttlSeconds = Number(Deno.env.get('RECOGNIZE_TOKEN_TTL_SECONDS') ?? DEFAULT_TTL_SECONDS);
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + ttlSeconds;
+    // sub is the recognize server's per-client rate-limit key
+    const token = await signToken(secret, { sub: clientId, aud: 'recognize', iat: issuedAt, exp: expiresAt });
+
+    log.info('token issued', { clientId, ttlSeconds, durationMs: log.elapsedMs() });
+
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        token,
+        clientId,
+        expiresAt: expiresAt * 1000,
+      }),
+      { 
+        status: 200, 
+        headers: jsonHeaders 
+      }
+    );
+
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to issue token';
+    log.error('token request failed', { err });
+    
+    // Always return CORS headers, even on error
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: message 
+      }),
+      { 
+        status: 500, 
+        headers: jsonHeaders 
+      }
+    );
+  }
+});
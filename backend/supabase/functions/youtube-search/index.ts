@@ -1,13 +1,152 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { formatIssues } from "../../../contract/schema.ts";
+import { parseYouTubeSearchRequest, type YouTubeSearchResponse } from "../../../contract/youtube.ts";
+import { REQUEST_ID_HEADER } from "../../../contract/headers.ts";
+import { requestLogger, type RequestLogger } from "../_shared/logger.ts";
+import { parseDuration, rankVideos, videoSignals, type CandidateVideo, type VideoSignals } from "../_shared/ranking.ts";
+import { cachedSearch, type SearchParams, type SearchResults } from "../_shared/search-cache.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+import {
+  configuredApiKeys,
+  isQuotaError,
+  QuotaExceededError,
+  QuotaExhaustedError,
+  quotaExhaustedResponse,
+  withApiKey,
+  type YouTubeErrorBody,
+} from "../_shared/youtube-keys.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
+  'Access-Control-Expose-Headers': 'x-request-id, retry-after',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Access-Control-Max-Age': '86400',
 };
 
+/** Channels from YOUTUBE_CHANNEL_ALLOWLIST (comma-separated ids or titles), ranked higher. */
+function channelAllowlist(): string[] {
+  return (Deno.env.get('YOUTUBE_CHANNEL_ALLOWLIST') ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/** Quota units one searchYouTube call spends: search.list (100) plus videos.list (1). */
+const SEARCH_COST = 101;
+
+async function searchYouTube(
+  searchQuery: string,
+  { maxResults, videoDuration, pageToken }: SearchParams,
+  youtubeApiKey: string,
+  log: RequestLogger
+): Promise<SearchResults> {
+  // Build YouTube API request
+  const params = new URLSearchParams({
+    part: 'snippet',
+    q: searchQuery,
+    type: 'video',
+    videoDuration: videoDuration,
+    maxResults: maxResults.toString(),
+    order: 'relevance',
+    key: youtubeApiKey,
+  });
+  if (pageToken) params.set('pageToken', pageToken);
+
+  const youtubeApiUrl = `https://www.googleapis.com/youtube/v3/search?${params}`;
+  const response = await fetch(youtubeApiUrl);
+  
+  if (!response.ok) {
+    const errorData: YouTubeErrorBody = await response.json();
+    if (isQuotaError(errorData)) throw new QuotaExceededError(errorData.error?.message);
+    log.error('YouTube API error', { status: response.status, error: errorData.error });
+    throw new Error(errorData.error?.message || `YouTube API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  // Extract video IDs to check embeddability and verify they're Shorts
+  const videoIds = (data.items || []).map((item: any) => item.id.videoId);
+  
+  // Check embeddability status and video details (to verify Shorts format) for all videos;
+  // the details and statistics are kept as ranking signals
+  let embeddableVideos: string[] = [];
+  const signals = new Map<string, VideoSignals>();
+  if (videoIds.length > 0) {
+    try {
+      // Get status and contentDetails to check embeddability and verify Shorts (vertical 9:16 format),
+      // and statistics and the player's embed size for ranking (same 1 unit; maxHeight makes
+      // YouTube include the embed size)
+      const detailsParams = new URLSearchParams({
+        part: 'status,contentDetails,statistics,player',
+        id: videoIds.join(','),
+        maxHeight: '1280',
+        key: youtubeApiKey,
+      });
+      
+      const detailsUrl = `https://www.googleapis.com/youtube/v3/videos?${detailsParams}`;
+      const detailsResponse = await fetch(detailsUrl);
+      
+      if (detailsResponse.ok) {
+        const detailsData = await detailsResponse.json();
+        for (const item of detailsData.items || []) {
+          signals.set(item.id, videoSignals(item));
+        }
+        // Filter to only embeddable Shorts that are public and available
+        embeddableVideos = (detailsData.items || [])
+          .filter((item: any) => {
+            const status = item.status;
+            const contentDetails = item.contentDetails;
+            
+            // Check if video is embeddable, public, and processed
+            const isEmbeddable = status?.embeddable !== false && 
+                                 status?.privacyStatus === 'public' &&
+                                 status?.uploadStatus === 'processed';
+            
+            if (!isEmbeddable) return false;
+            
+            // Verify it's a Short (vertical format 9:16)
+            // Shorts are typically under 60 seconds and have vertical aspect ratio
+            const duration = contentDetails?.duration;
+            
+            // Check if it's vertical (taller embed than wide) or has Shorts-like duration
+            // YouTube Shorts are typically vertical and under 60 seconds
+            const isVertical = signals.get(item.id)?.vertical === true;
+            const isShortDuration = duration && parseDuration(duration) <= 60; // 60 seconds max for Shorts
+            
+            // Include if it's vertical OR if duration suggests it's a Short
+            // (Some videos come without an embed size, so we check duration too)
+            return isVertical || isShortDuration;
+          })
+          .map((item: any) => item.id);
+      } else {
+        log.warn('video details check failed; including all videos', { status: detailsResponse.status });
+        embeddableVideos = videoIds; // Fallback: include all if check fails
+      }
+    } catch (detailsError) {
+      log.warn('video details check failed; including all videos', { err: detailsError });
+      embeddableVideos = videoIds; // Fallback: include all if check fails
+    }
+  }
+
+  // Format videos for frontend, filtering out non-embeddable videos; ranked after the cache
+  const videos: CandidateVideo[] = (data.items || [])
+    .filter((item: any) => embeddableVideos.includes(item.id.videoId))
+    .map((item: any) => ({
+      id: item.id.videoId,
+      title: item.snippet.title,
+      channelTitle: item.snippet.channelTitle,
+      thumbnail: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.default?.url || '',
+      description: item.snippet.description ?? '',
+      ...(item.snippet.channelId ? { channelId: item.snippet.channelId } : {}),
+      ...signals.get(item.id.videoId),
+    }));
+
+  return {
+    videos,
+    totalResults: data.pageInfo?.totalResults || videos.length,
+    ...(data.nextPageToken ? { nextPageToken: data.nextPageToken } : {}),
+  };
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -17,171 +156,115 @@ serve(async (req) => {
     });
   }
 
+  const log = requestLogger(req, 'youtube-search');
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json', [REQUEST_ID_HEADER]: log.requestId };
+
   try {
     // Parse request body
     let body;
     try {
       body = await req.json();
     } catch (parseError) {
+      log.warn('search finished', { outcome: 'bad-request', status: 400, durationMs: log.elapsedMs() });
       return new Response(
         JSON.stringify({ success: false, error: 'Invalid JSON in request body' }),
         { 
           status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          headers: jsonHeaders 
         }
       );
     }
     
-    const { query, maxResults = 10, videoDuration = 'short' } = body;
-    
-    if (!query || !query.trim()) {
+    // Validate against the shared contract the frontend builds its request from
+    const parsed = parseYouTubeSearchRequest(body);
+    if (!parsed.success) {
+      const missingQuery = parsed.issues.some((issue) => issue.path === 'query');
+      log.warn('search finished', {
+        outcome: 'bad-request',
+        status: 400,
+        durationMs: log.elapsedMs(),
+        issues: formatIssues(parsed.issues),
+      });
       return new Response(
-        JSON.stringify({ success: false, error: 'Search query is required' }),
+        JSON.stringify({
+          success: false,
+          error: missingQuery ? 'Search query is required' : `Invalid request: ${formatIssues(parsed.issues)}`,
+        }),
         { 
           status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          headers: jsonHeaders 
         }
       );
     }
 
-    // Get YouTube API key from environment (set in Supabase dashboard)
-    const youtubeApiKey = Deno.env.get('YOUTUBE_API_KEY');
-    if (!youtubeApiKey) {
-      console.error('YOUTUBE_API_KEY not configured in Supabase secrets');
+    const { query, maxResults = 10, videoDuration = 'short', pageToken, songTitle } = parsed.data;
+
+    // YouTube API keys from environment (set in Supabase dashboard); several spread the daily quota
+    const apiKeys = await configuredApiKeys();
+    if (apiKeys.length === 0) {
+      log.error('YOUTUBE_API_KEYS / YOUTUBE_API_KEY not configured in Supabase secrets');
       return new Response(
         JSON.stringify({ success: false, error: 'YouTube API key not configured' }),
         { 
           status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          headers: jsonHeaders 
         }
       );
     }
 
     // Add "dance" and "shorts" keywords to search query for better results (YouTube Shorts only)
     const searchQuery = `${query.trim()} dance shorts`;
-    
-    // Build YouTube API request
-    const params = new URLSearchParams({
-      part: 'snippet',
-      q: searchQuery,
-      type: 'video',
-      videoDuration: videoDuration,
-      maxResults: maxResults.toString(),
-      order: 'relevance',
-      key: youtubeApiKey,
-    });
-
-    const youtubeApiUrl = `https://www.googleapis.com/youtube/v3/search?${params}`;
-    
-    console.log('📹 YouTube: Searching for:', searchQuery);
-    console.log('📹 YouTube: Max results:', maxResults);
-
-    const response = await fetch(youtubeApiUrl);
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('📹 YouTube: API error:', errorData);
-      throw new Error(errorData.error?.message || `YouTube API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    console.log('📹 YouTube: Found', data.items?.length || 0, 'videos');
-
-    // Helper function to parse YouTube duration (PT1M30S format) to seconds
-    function parseDuration(duration: string): number {
-      const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-      if (!match) return 0;
-      const hours = parseInt(match[1] || '0', 10);
-      const minutes = parseInt(match[2] || '0', 10);
-      const seconds = parseInt(match[3] || '0', 10);
-      return hours * 3600 + minutes * 60 + seconds;
-    }
+    const searchParams: SearchParams = { maxResults, videoDuration, ...(pageToken ? { pageToken } : {}) };
 
-    // Extract video IDs to check embeddability and verify they're Shorts
-    const videoIds = (data.items || []).map((item: any) => item.id.videoId);
-    
-    // Check embeddability status and video details (to verify Shorts format) for all videos
-    let embeddableVideos: string[] = [];
-    if (videoIds.length > 0) {
-      try {
-        // Get both status and contentDetails to check embeddability and verify Shorts (vertical 9:16 format)
-        const detailsParams = new URLSearchParams({
-          part: 'status,contentDetails',
-          id: videoIds.join(','),
-          key: youtubeApiKey,
-        });
-        
-        const detailsUrl = `https://www.googleapis.com/youtube/v3/videos?${detailsParams}`;
-        const detailsResponse = await fetch(detailsUrl);
-        
-        if (detailsResponse.ok) {
-          const detailsData = await detailsResponse.json();
-          // Filter to only embeddable Shorts that are public and available
-          embeddableVideos = (detailsData.items || [])
-            .filter((item: any) => {
-              const status = item.status;
-              const contentDetails = item.contentDetails;
-              
-              // Check if video is embeddable, public, and processed
-              const isEmbeddable = status?.embeddable !== false && 
-                                   status?.privacyStatus === 'public' &&
-                                   status?.uploadStatus === 'processed';
-              
-              if (!isEmbeddable) return false;
-              
-              // Verify it's a Short (vertical format 9:16)
-              // Shorts are typically under 60 seconds and have vertical aspect ratio
-              const duration = contentDetails?.duration;
-              const dimension = contentDetails?.dimension;
-              
-              // Check if it's vertical (dimension === 'vertical') or has Shorts-like duration
-              // YouTube Shorts are typically vertical and under 60 seconds
-              const isVertical = dimension === 'vertical';
-              const isShortDuration = duration && parseDuration(duration) <= 60; // 60 seconds max for Shorts
-              
-              // Include if it's vertical OR if duration suggests it's a Short
-              // (Some Shorts might not have dimension set, so we check duration too)
-              return isVertical || isShortDuration;
-            })
-            .map((item: any) => item.id);
-          console.log('📹 YouTube: Found', embeddableVideos.length, 'embeddable Shorts out of', videoIds.length);
-        } else {
-          console.warn('📹 YouTube: Failed to check video details, including all videos');
-          embeddableVideos = videoIds; // Fallback: include all if check fails
-        }
-      } catch (detailsError) {
-        console.warn('📹 YouTube: Error checking video details:', detailsError);
-        embeddableVideos = videoIds; // Fallback: include all if check fails
-      }
-    }
+    // Read through youtube_search_cache; YouTube is only asked on a miss or an expired entry,
+    // with whichever key has the most quota left
+    const db = serviceClient();
+    const { videos: candidates, totalResults, nextPageToken, cache } = await cachedSearch(
+      db,
+      searchQuery,
+      searchParams,
+      log,
+      () => withApiKey(db, apiKeys, SEARCH_COST, log, (key) => searchYouTube(searchQuery, searchParams, key, log))
+    );
 
-    // Format videos for frontend, filtering out non-embeddable videos
-    const videos = (data.items || [])
-      .filter((item: any) => embeddableVideos.includes(item.id.videoId))
-      .map((item: any) => ({
-        id: item.id.videoId,
-        title: item.snippet.title,
-        channelTitle: item.snippet.channelTitle,
-        thumbnail: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.default?.url,
-        description: item.snippet.description,
-      }));
+    // Best hookstep candidates first, instead of YouTube's relevance order
+    const videos = rankVideos(candidates, { songTitle: songTitle ?? query, channelAllowlist: channelAllowlist() });
 
+    const result: YouTubeSearchResponse = {
+      success: true,
+      videos,
+      totalResults,
+      ...(nextPageToken ? { nextPageToken } : {}),
+      cache,
+    };
+    log.info('search finished', {
+      outcome: 'ok',
+      status: 200,
+      durationMs: log.elapsedMs(),
+      query: searchQuery,
+      maxResults,
+      page: pageToken ? 'next' : 'first',
+      cache,
+      videos: videos.length,
+      topScore: videos[0]?.score ?? null,
+    });
     return new Response(
-      JSON.stringify({ 
-        success: true, 
-        videos,
-        totalResults: data.pageInfo?.totalResults || videos.length,
-      }),
+      JSON.stringify(result),
       { 
         status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        headers: jsonHeaders 
       }
     );
 
   } catch (err) {
+    if (err instanceof QuotaExhaustedError) {
+      // A distinct code, so the frontend can say so instead of showing fallback videos
+      log.warn('search finished', { outcome: 'quota-exhausted', status: 429, durationMs: log.elapsedMs() });
+      return quotaExhaustedResponse(err, jsonHeaders);
+    }
+
     const message = err instanceof Error ? err.message : 'Failed to search YouTube';
-    console.error('📹 YouTube: Error:', err);
-    console.error('📹 YouTube: Error stack:', err instanceof Error ? err.stack : 'No stack trace');
+    log.error('search finished', { outcome: 'error', status: 500, durationMs: log.elapsedMs(), err });
     
     // Always return CORS headers, even on error
     return new Response(
@@ -191,7 +274,7 @@ serve(async (req) => {
       }),
       { 
         status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        headers: jsonHeaders 
       }
     );
   }
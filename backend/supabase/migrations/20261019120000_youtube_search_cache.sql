@@ -0,0 +1,16 @@
+-- Cache of youtube-search results, so a song recognized again within the TTL costs no YouTube quota
+CREATE TABLE public.youtube_search_cache (
+  -- Normalized query plus search parameters (see functions/_shared/search-cache.ts)
+  cache_key TEXT NOT NULL PRIMARY KEY,
+  query TEXT NOT NULL,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Successful response body: { videos, totalResults }
+  response JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS without policies: only the youtube-search function (service role) reads and writes
+ALTER TABLE public.youtube_search_cache ENABLE ROW LEVEL SECURITY;
+
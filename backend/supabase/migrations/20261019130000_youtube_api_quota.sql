@@ -0,0 +1,30 @@
+-- Estimated YouTube Data API quota spent per key and quota day (midnight to midnight Pacific time)
+CREATE TABLE public.youtube_api_quota (
+  -- First 12 hex digits of the key's SHA-256; the key itself is never stored
+  key_id TEXT NOT NULL,
+  quota_day DATE NOT NULL,
+  units_used INTEGER NOT NULL DEFAULT 0,
+  -- Set when YouTube answered quotaExceeded; the key is skipped for the rest of the day
+  exhausted_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (key_id, quota_day)
+);
+
+-- Enable RLS without policies: only the youtube-search function (service role) reads and writes
+ALTER TABLE public.youtube_api_quota ENABLE ROW LEVEL SECURITY;
+
+-- Add spend atomically, so concurrent searches don't lose each other's units
+CREATE FUNCTION public.spend_youtube_quota(p_key_id TEXT, p_quota_day DATE, p_units INTEGER, p_exhausted BOOLEAN)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO public.youtube_api_quota (key_id, quota_day, units_used, exhausted_at)
+  VALUES (p_key_id, p_quota_day, p_units, CASE WHEN p_exhausted THEN now() END)
+  ON CONFLICT (key_id, quota_day) DO UPDATE SET
+    units_used = youtube_api_quota.units_used + EXCLUDED.units_used,
+    exhausted_at = COALESCE(youtube_api_quota.exhausted_at, EXCLUDED.exhausted_at),
+    updated_at = now();
+$$;
+
+-- Functions are executable by everyone by default; keep this one to the service role
+REVOKE EXECUTE ON FUNCTION public.spend_youtube_quota(TEXT, DATE, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,3 @@
+-- youtube-search deletes entries expired longer than the stale window on each write
+-- (functions/_shared/search-cache.ts); this keeps that delete an index range scan
+CREATE INDEX youtube_search_cache_expires_at_idx ON public.youtube_search_cache (expires_at);
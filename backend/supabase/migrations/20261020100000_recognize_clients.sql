@@ -0,0 +1,53 @@
+-- Client ids issued by the recognize-token function. Tokens carry one as sub, which the
+-- recognize server rate limits on, so browsers can't pick their own (or another's) id.
+CREATE TABLE public.recognize_clients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Tokens issued per client IP and fixed window
+CREATE TABLE public.recognize_token_issuance (
+  -- First 12 hex digits of the IP's SHA-256; the IP itself is never stored
+  ip_key TEXT NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  tokens INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (ip_key, window_start)
+);
+
+-- Enable RLS without policies: only the recognize-token function (service role) reads and writes
+ALTER TABLE public.recognize_clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recognize_token_issuance ENABLE ROW LEVEL SECURITY;
+
+-- The requested id when it was issued before (marked seen), otherwise a new one
+CREATE FUNCTION public.recognize_client_id(p_client_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  UPDATE public.recognize_clients SET last_seen_at = now() WHERE id = p_client_id RETURNING id INTO v_id;
+  IF v_id IS NULL THEN
+    INSERT INTO public.recognize_clients DEFAULT VALUES RETURNING id INTO v_id;
+  END IF;
+  RETURN v_id;
+END;
+$$;
+
+-- Count a token against the IP's window and return the window's total; counts from
+-- earlier days are dropped on the way
+CREATE FUNCTION public.count_recognize_token(p_ip_key TEXT, p_window_start TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  DELETE FROM public.recognize_token_issuance WHERE window_start < p_window_start - INTERVAL '1 day';
+  INSERT INTO public.recognize_token_issuance (ip_key, window_start, tokens)
+  VALUES (p_ip_key, p_window_start, 1)
+  ON CONFLICT (ip_key, window_start) DO UPDATE SET tokens = recognize_token_issuance.tokens + 1
+  RETURNING tokens;
+$$;
+
+-- Functions are executable by everyone by default; keep these to the service role
+REVOKE EXECUTE ON FUNCTION public.recognize_client_id(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.count_recognize_token(TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
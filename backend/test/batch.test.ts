@@ -0,0 +1,174 @@
+/**
+ * Batch recognition: merging windows into segments, progress, and the job queue's limits,
+ * with the mock provider and WAV files written to a temp dir.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { BatchQueue, mergeSegments, type BatchJob, type BatchOptions, type WindowResult } from '../recognize/batch.js';
+import { setLogLevel } from '../recognize/logger.js';
+import { Preprocessor } from '../recognize/preprocess.js';
+import { MOCK_TRACK, MockProvider } from '../recognize/providers/mock.js';
+import type { RecognizedTrack } from '../recognize/providers/types.js';
+import { WorkPool } from '../recognize/work-pool.js';
+import { noise, wavFile } from './synthetic-audio.js';
+
+setLogLevel('error');
+
+const OTHER_TRACK: RecognizedTrack = { key: 'other', title: 'Other', subtitle: 'Someone' };
+
+/** Window `index` of a 10 s / 6 s hop job, matching track (or nothing). */
+function window(index: number, track: RecognizedTrack | null): WindowResult {
+  return {
+    startSeconds: index * 6,
+    endSeconds: index * 6 + 10,
+    match: track ? { track, provider: 'mock', offsetSeconds: index * 6 } : null,
+  };
+}
+
+describe('mergeSegments', () => {
+  it('merges consecutive windows of one track into a segment', () => {
+    const segments = mergeSegments([window(0, MOCK_TRACK), window(1, MOCK_TRACK), window(2, OTHER_TRACK)]);
+    assert.deepEqual(segments, [
+      { track: MOCK_TRACK, provider: 'mock', startSeconds: 0, endSeconds: 16, offsetSeconds: 0, windows: 2 },
+      { track: OTHER_TRACK, provider: 'mock', startSeconds: 12, endSeconds: 22, offsetSeconds: 12, windows: 1 },
+    ]);
+  });
+
+  it('bridges one unmatched or different window, but not two', () => {
+    const bridged = mergeSegments([window(0, MOCK_TRACK), window(1, null), window(2, MOCK_TRACK)]);
+    assert.equal(bridged.length, 1);
+    assert.equal(bridged[0].endSeconds, 22);
+    assert.equal(bridged[0].windows, 2);
+
+    const talkOver = mergeSegments([window(0, MOCK_TRACK), window(1, OTHER_TRACK), window(2, MOCK_TRACK)]);
+    assert.deepEqual(talkOver.map((s) => s.track.key), [MOCK_TRACK.key, OTHER_TRACK.key, MOCK_TRACK.key]);
+
+    const twoGaps = [window(0, MOCK_TRACK), window(1, null), window(2, null), window(3, MOCK_TRACK)];
+    assert.equal(mergeSegments(twoGaps).length, 2);
+    assert.equal(mergeSegments(twoGaps, 2).length, 1);
+  });
+
+  it('returns no segments when nothing matched', () => {
+    assert.deepEqual(mergeSegments([window(0, null), window(1, null)]), []);
+  });
+});
+
+const OPTIONS: BatchOptions = { windowSeconds: 4, hopSeconds: 3, maxQueued: 1, jobTtlMs: 60_000 };
+const preprocessor = new Preprocessor([], { highpassHz: 100, lowpassHz: 4000, gateDbfs: -60, targetDbfs: -20 });
+const pool = () => new WorkPool({ concurrency: 1, maxWaitMs: 1000, maxQueued: 10 });
+
+let tmpDir: string;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-test-'));
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/** A WAV of noise in the temp dir; the mock provider matches any non-empty audio. */
+function writeRecording(name: string, seconds: number): string {
+  const filePath = path.join(tmpDir, name);
+  fs.writeFileSync(filePath, wavFile(noise(1, seconds)));
+  return filePath;
+}
+
+async function finished(queue: BatchQueue, job: BatchJob): Promise<BatchJob> {
+  for (let i = 0; i < 300; i++) {
+    const current = queue.get(job.id)!;
+    if (current.status !== 'queued' && current.status !== 'running') return current;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`job ${job.id} still ${job.status}`);
+}
+
+describe('BatchQueue', () => {
+  it('recognizes overlapping windows plus a tail, and reports progress', async () => {
+    const queue = new BatchQueue([new MockProvider()], preprocessor, pool(), OPTIONS);
+    const filePath = writeRecording('set.wav', 9);
+    const job = await finished(queue, queue.submit(filePath, 'set.wav')!);
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.durationSeconds, 9);
+    // 0-4 s, 3-7 s, then the 3 s left after the last hop
+    assert.deepEqual(job.windows.map((w) => [w.startSeconds, w.endSeconds]), [[0, 4], [3, 7], [6, 9]]);
+    assert.deepEqual(mergeSegments(job.windows).map((s) => [s.track.key, s.startSeconds, s.endSeconds]), [
+      [MOCK_TRACK.key, 0, 9],
+    ]);
+    assert.deepEqual(queue.progress(job), {
+      status: 'completed',
+      processedSeconds: 9,
+      durationSeconds: 9,
+      windowsDone: 3,
+      windowsTotal: 3,
+      progress: 1,
+    });
+    assert.equal(fs.existsSync(filePath), false);
+  });
+
+  it('estimates windows and progress while a job runs', () => {
+    const queue = new BatchQueue([], preprocessor, pool(), { ...OPTIONS, windowSeconds: 10, hopSeconds: 6 });
+    const job = { status: 'running', durationSeconds: 30, processedSeconds: 16, windowsDone: 2 } as BatchJob;
+    // Windows at 0, 6, 12 and 18 s cover 28 s; the 6 s tail after the last hop gets one more
+    assert.deepEqual(queue.progress(job), {
+      status: 'running',
+      processedSeconds: 16,
+      durationSeconds: 30,
+      windowsDone: 2,
+      windowsTotal: 5,
+      progress: 16 / 30,
+    });
+    assert.equal(queue.progress({ ...job, durationSeconds: 31.5 }).windowsTotal, 5);
+    const unknown = queue.progress({ ...job, durationSeconds: null });
+    assert.equal(unknown.windowsTotal, null);
+    assert.equal(unknown.progress, null);
+  });
+
+  it('refuses a submission when the queue is full and removes its file', () => {
+    const queue = new BatchQueue([new MockProvider()], preprocessor, pool(), OPTIONS);
+    const running = queue.submit(writeRecording('running.wav', 1), 'running.wav');
+    const queued = queue.submit(writeRecording('queued.wav', 1), 'queued.wav');
+    assert.equal(running?.status, 'running');
+    assert.equal(queued?.status, 'queued');
+
+    const refusedPath = writeRecording('refused.wav', 1);
+    assert.equal(queue.submit(refusedPath, 'refused.wav'), null);
+    assert.equal(fs.existsSync(refusedPath), false);
+
+    assert.equal(queue.cancelAll(), 2);
+    assert.equal(queued.status, 'cancelled');
+  });
+
+  it('waits for the work pool, skipping windows it sheds', async () => {
+    const busy = new WorkPool({ concurrency: 1, maxWaitMs: 20, maxQueued: 10 });
+    const queue = new BatchQueue([new MockProvider()], preprocessor, busy, OPTIONS);
+    const release = (await busy.acquire())!;
+
+    const shed = await finished(queue, queue.submit(writeRecording('busy.wav', 9), 'busy.wav')!);
+    assert.equal(shed.status, 'completed');
+    assert.equal(shed.windowsFailed, 3);
+    assert.deepEqual(mergeSegments(shed.windows), []);
+
+    release();
+    const served = await finished(queue, queue.submit(writeRecording('idle.wav', 9), 'idle.wav')!);
+    assert.equal(served.windowsFailed, 0);
+    assert.equal(mergeSegments(served.windows).length, 1);
+    assert.deepEqual(busy.stats, { running: 0, queued: 0 });
+  });
+
+  it('forgets finished jobs after jobTtlMs', async (t) => {
+    const queue = new BatchQueue([new MockProvider()], preprocessor, pool(), OPTIONS);
+    const job = await finished(queue, queue.submit(writeRecording('short.wav', 1), 'short.wav')!);
+    assert.equal(job.status, 'completed');
+
+    t.mock.timers.enable({ apis: ['Date'], now: job.finishedAt! + OPTIONS.jobTtlMs - 1 });
+    assert.equal(queue.get(job.id), job);
+    t.mock.timers.tick(2);
+    assert.equal(queue.get(job.id), null);
+  });
+});
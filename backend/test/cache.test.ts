@@ -0,0 +1,83 @@
+/**
+ * RecognitionCache: the similarity threshold, TTL expiry and refresh on hits, least
+ * recently used eviction, and the hit/miss counters.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RecognitionCache, type RecognitionCacheOptions } from '../recognize/cache.js';
+
+/** Hashes from..to, inclusive. */
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const cache = (options: Partial<RecognitionCacheOptions> = {}) =>
+  new RecognitionCache<string>({ ttlMs: 60_000, maxEntries: 10, minSimilarity: 0.5, ...options });
+
+describe('RecognitionCache', () => {
+  it('hits at exactly minSimilarity and misses just below it', () => {
+    const songs = cache();
+    songs.store(range(1, 10), 'song');
+    // Jaccard 5/10 and 4/10
+    assert.equal(songs.lookup(range(1, 5)), 'song');
+    assert.equal(songs.lookup(range(1, 4)), null);
+    assert.equal(songs.lookup([]), null);
+  });
+
+  it('returns the most similar entry', () => {
+    const songs = cache();
+    songs.store(range(1, 10), 'close');
+    songs.store(range(1, 8), 'closer');
+    assert.equal(songs.lookup(range(1, 8)), 'closer');
+  });
+
+  it('ignores empty fingerprints', () => {
+    const songs = cache();
+    songs.store([], 'nothing');
+    assert.equal(songs.stats().size, 0);
+  });
+
+  it('expires entries ttlMs after they were stored or last hit', (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 0 });
+    const songs = cache();
+    songs.store(range(1, 10), 'song');
+
+    t.mock.timers.tick(59_999);
+    assert.equal(songs.lookup(range(1, 10)), 'song');
+    // The hit gave it another full TTL
+    t.mock.timers.tick(59_999);
+    assert.equal(songs.lookup(range(1, 10)), 'song');
+
+    t.mock.timers.tick(60_000);
+    assert.equal(songs.lookup(range(1, 10)), null);
+    assert.equal(songs.stats().size, 0);
+  });
+
+  it('evicts the least recently used entry, counting hits as use', () => {
+    const songs = cache({ maxEntries: 2 });
+    songs.store(range(1, 10), 'a');
+    songs.store(range(11, 20), 'b');
+    assert.equal(songs.lookup(range(1, 10)), 'a');
+
+    songs.store(range(21, 30), 'c');
+    assert.equal(songs.stats().size, 2);
+    assert.equal(songs.lookup(range(11, 20)), null);
+    assert.equal(songs.lookup(range(1, 10)), 'a');
+    assert.equal(songs.lookup(range(21, 30)), 'c');
+
+    // Without hits, the oldest store goes first
+    songs.store(range(31, 40), 'd');
+    assert.equal(songs.lookup(range(1, 10)), null);
+  });
+
+  it('counts hits and misses', () => {
+    const songs = cache();
+    assert.deepEqual(songs.stats(), { hits: 0, misses: 0, size: 0, hitRate: 0 });
+
+    songs.store(range(1, 10), 'song');
+    songs.lookup(range(1, 10));
+    songs.lookup(range(1, 10));
+    songs.lookup(range(11, 20));
+    songs.lookup(range(11, 20));
+    assert.deepEqual(songs.stats(), { hits: 2, misses: 2, size: 1, hitRate: 0.5 });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Signed client tokens: HS256 verification and required vs optional tokens.
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { describe, it } from 'node:test';
+import type { Request, Response } from 'express';
+import {
+  checkClientToken,
+  requireClientToken,
+  signClientToken,
+  verifyClientToken,
+  type ClientTokenOptions,
+} from '../recognize/client-token.js';
+
+const SECRET = 'test-secret';
+
+/** A token with arbitrary header and claims, signed like the Edge Function signs. */
+function forge(claims: Record<string, unknown>, { secret = SECRET, alg = 'HS256' } = {}): string {
+  const header = Buffer.from(JSON.stringify({ alg, typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('verifyClientToken', () => {
+  it('accepts a token signed with the secret', () => {
+    const claims = verifyClientToken(signClientToken(SECRET, 'browser-1234', 600), SECRET);
+    assert.ok(claims);
+    assert.equal(claims.sub, 'browser-1234');
+    assert.equal(claims.aud, 'recognize');
+    assert.equal(claims.exp - claims.iat, 600);
+  });
+
+  it('rejects an expired token, allowing for clock skew', () => {
+    const claims = { sub: 'browser-1234', aud: 'recognize' };
+    assert.equal(verifyClientToken(forge({ ...claims, iat: now() - 700, exp: now() - 100 }), SECRET), null);
+    assert.ok(verifyClientToken(forge({ ...claims, iat: now() - 610, exp: now() - 10 }), SECRET));
+  });
+
+  it('rejects a token issued in the future', () => {
+    assert.equal(verifyClientToken(forge({ sub: 'b', aud: 'recognize', iat: now() + 120, exp: now() + 720 }), SECRET), null);
+  });
+
+  it('rejects a bad signature', () => {
+    assert.equal(verifyClientToken(signClientToken('other-secret', 'browser-1234', 600), SECRET), null);
+
+    const [header, , signature] = signClientToken(SECRET, 'browser-1234', 600).split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'someone-else', aud: 'recognize', iat: now(), exp: now() + 600 }));
+    assert.equal(verifyClientToken(`${header}.${payload.toString('base64url')}.${signature}`, SECRET), null);
+  });
+
+  it('rejects another audience or algorithm', () => {
+    const claims = { sub: 'browser-1234', iat: now(), exp: now() + 600 };
+    assert.equal(verifyClientToken(forge({ ...claims, aud: 'youtube-search' }), SECRET), null);
+    assert.equal(verifyClientToken(forge({ ...claims, aud: 'recognize' }, { alg: 'none' }), SECRET), null);
+  });
+
+  it('rejects malformed tokens', () => {
+    const valid = signClientToken(SECRET, 'browser-1234', 600);
+    for (const token of ['', 'abc', 'a.b', `${valid}.extra`, `${valid.split('.')[0]}..${valid.split('.')[2]}`]) {
+      assert.equal(verifyClientToken(token, SECRET), null, token);
+    }
+    assert.equal(verifyClientToken(forge({ aud: 'recognize', iat: now(), exp: now() + 600 }), SECRET), null);
+
+    // Correctly signed, but the payload isn't JSON
+    const header = Buffer.from('{"alg":"HS256"}').toString('base64url');
+    const payload = Buffer.from('not json').toString('base64url');
+    const signature = crypto.createHmac('sha256', SECRET).update(`${header}.${payload}`).digest('base64url');
+    assert.equal(verifyClientToken(`${header}.${payload}.${signature}`, SECRET), null);
+  });
+});
+
+describe('requireClientToken', () => {
+  /** Run the middleware on a request with the given Authorization header. */
+  function run(options: ClientTokenOptions, authorization?: string) {
+    const req = { headers: authorization ? { authorization } : {} } as Request;
+    const result: { status?: number; body?: unknown; locals: Record<string, unknown>; next: boolean } = {
+      locals: {},
+      next: false,
+    };
+    const res = {
+      locals: result.locals,
+      status(code: number) {
+        result.status = code;
+        return this;
+      },
+      json(body: unknown) {
+        result.body = body;
+        return this;
+      },
+    } as unknown as Response;
+    requireClientToken(options)(req, res, () => (result.next = true));
+    return result;
+  }
+
+  const token = signClientToken(SECRET, 'browser-1234', 600);
+
+  it('passes a valid token on with its client id', () => {
+    const result = run({ secret: SECRET, required: true }, `Bearer ${token}`);
+    assert.ok(result.next);
+    assert.equal(result.locals.clientId, 'browser-1234');
+  });
+
+  it('answers 401 when a required token is missing or invalid', () => {
+    const missing = run({ secret: SECRET, required: true });
+    assert.equal(missing.next, false);
+    assert.equal(missing.status, 401);
+    assert.deepEqual(missing.body, { success: false, error: 'Client token required' });
+
+    const invalid = run({ secret: SECRET, required: true }, `Bearer ${signClientToken('other', 'b', 600)}`);
+    assert.equal(invalid.status, 401);
+    assert.deepEqual(invalid.body, { success: false, error: 'Invalid or expired client token' });
+  });
+
+  it('lets requests without a valid token through when tokens are optional', () => {
+    for (const authorization of [undefined, 'Bearer not-a-token', `Bearer ${signClientToken('other', 'b', 600)}`]) {
+      const result = run({ secret: SECRET, required: false }, authorization);
+      assert.ok(result.next);
+      assert.equal(result.locals.clientId, null);
+    }
+  });
+
+  it('ignores tokens when no secret is configured', () => {
+    assert.deepEqual(checkClientToken({ secret: undefined, required: false }, token), { ok: true, clientId: null });
+    assert.deepEqual(checkClientToken({ secret: undefined, required: true }, token), {
+      ok: false,
+      error: 'Invalid or expired client token',
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Config: defaults, parsed values, and every invalid variable reported at once.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { describeConfig, describeIssues, parseConfig, parsePreprocessConfig } from '../recognize/config.js';
+
+describe('parseConfig', () => {
+  it('fills in defaults for an empty environment', () => {
+    const result = parseConfig({});
+    assert.ok(result.success);
+    const config = result.data;
+    assert.equal(config.port, 3456);
+    assert.deepEqual(config.providers, ['shazam', 'local']);
+    assert.equal(config.locale, 'en-US');
+    assert.equal(config.upload.maxBytes, 10 * 1024 * 1024);
+    assert.equal(config.upload.minBytes, 1000);
+    assert.deepEqual(config.upload.allowedExtensions, ['webm', 'wav', 'mp3', 'ogg', 'm4a']);
+    assert.deepEqual(config.corsOrigins, []);
+    assert.equal(config.clientToken.required, false);
+  });
+
+  it('reads lists, numbers and flags', () => {
+    const result = parseConfig({
+      PORT: '8080',
+      RECOGNIZE_PROVIDERS: ' local , shazam ',
+      RECOGNIZE_LOCALE: 'hi-IN',
+      RECOGNIZE_METADATA_LOCALES: 'en-US, pa',
+      RECOGNIZE_MAX_UPLOAD_MB: '2.5',
+      RECOGNIZE_ALLOWED_EXTENSIONS: '.WAV,flac',
+      CORS_ORIGINS: 'https://bolly-beat.app,http://localhost:8080',
+      RECOGNIZE_TOKEN_SECRET: 'secret',
+      RECOGNIZE_REQUIRE_TOKEN: 'true',
+    });
+    assert.ok(result.success);
+    const config = result.data;
+    assert.equal(config.port, 8080);
+    assert.deepEqual(config.providers, ['local', 'shazam']);
+    assert.equal(config.locale, 'hi-IN');
+    assert.deepEqual(config.metadataLocales, ['en-US', 'pa']);
+    assert.equal(config.upload.maxBytes, 2.5 * 1024 * 1024);
+    assert.deepEqual(config.upload.allowedExtensions, ['wav', 'flac']);
+    assert.deepEqual(config.corsOrigins, ['https://bolly-beat.app', 'http://localhost:8080']);
+    assert.equal(config.clientToken.required, true);
+  });
+
+  it('reports every invalid variable', () => {
+    const result = parseConfig({
+      PORT: 'eighty',
+      RECOGNIZE_CONCURRENCY: '0',
+      RECOGNIZE_PROVIDERS: 'shazam,acrcloud',
+      RECOGNIZE_LOCALE: 'english',
+      RECOGNIZE_METADATA_LOCALES: 'hi_IN',
+      RECOGNIZE_REQUIRE_TOKEN: 'true',
+      CORS_ORIGINS: 'https://bolly-beat.app/',
+      BATCH_HOP_SECONDS: '12',
+    });
+    assert.ok(!result.success);
+    assert.deepEqual(
+      result.issues.map((issue) => issue.path).sort(),
+      [
+        'BATCH_HOP_SECONDS',
+        'CORS_ORIGINS',
+        'PORT',
+        'RECOGNIZE_CONCURRENCY',
+        'RECOGNIZE_LOCALE',
+        'RECOGNIZE_METADATA_LOCALES',
+        'RECOGNIZE_PROVIDERS',
+        'RECOGNIZE_REQUIRE_TOKEN',
+      ]
+    );
+    assert.ok(describeIssues(result.issues).includes('RECOGNIZE_CONCURRENCY: must be at least 1, got 0'));
+  });
+
+  it('never describes the token secret', () => {
+    const result = parseConfig({ RECOGNIZE_TOKEN_SECRET: 'do-not-log-me' });
+    assert.ok(result.success);
+    assert.doesNotMatch(JSON.stringify(describeConfig(result.data)), /do-not-log-me/);
+  });
+});
+
+describe('parsePreprocessConfig', () => {
+  it('treats an empty chain as no preprocessing', () => {
+    const result = parsePreprocessConfig({ RECOGNIZE_PREPROCESS: '' });
+    assert.ok(result.success);
+    assert.deepEqual(result.data.steps, []);
+  });
+
+  it('rejects unknown steps', () => {
+    const result = parsePreprocessConfig({ RECOGNIZE_PREPROCESS: 'highpass,denoise' });
+    assert.ok(!result.success);
+    assert.equal(result.issues[0].path, 'RECOGNIZE_PREPROCESS');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * The recognize server end to end, in-process with the mock provider and the fixture clips
+ * in test/fixtures: real multipart uploads through multer, ffmpeg decoding and the provider
+ * chain, with no network access.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { after, before, describe, it } from 'node:test';
+import {
+  batchResultResponseSchema,
+  formatIssues,
+  parse,
+  parseRecognizeResponse,
+  type RecognizeResponse,
+} from '../contract/index.js';
+import { MOCK_TRACK } from '../recognize/providers/mock.js';
+import { UPLOAD_DIR } from '../recognize/uploads.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+process.env.RECOGNIZE_PROVIDERS = 'mock';
+// Every upload reaches the provider; a cache hit would hide a provider failure
+process.env.RECOGNIZE_CACHE_MAX_ENTRIES = '0';
+process.env.RECOGNIZE_MAX_UPLOAD_MB = '0.1';
+process.env.LOG_LEVEL = 'error';
+
+let server: Server;
+let baseUrl: string;
+let providers: typeof import('../recognize/server.js')['providers'];
+
+before(async () => {
+  // Imported after the env is set; the server reads its config at load
+  const module = await import('../recognize/server.js');
+  providers = module.providers;
+  server = module.app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+function fixture(name: string, type: string): FormData {
+  const form = new FormData();
+  form.append('audio', new Blob([fs.readFileSync(path.join(FIXTURES, name))], { type }), name);
+  return form;
+}
+
+async function recognize(form: FormData): Promise<{ status: number; body: RecognizeResponse }> {
+  const res = await fetch(`${baseUrl}/api/recognize`, { method: 'POST', body: form });
+  const parsed = parseRecognizeResponse(await res.json());
+  assert.ok(parsed.success, `response doesn't match the contract: ${!parsed.success && formatIssues(parsed.issues)}`);
+  return { status: res.status, body: parsed.data };
+}
+
+/** Scratch files this process has left in the upload dir. */
+function ownScratchFiles(): string[] {
+  return fs.readdirSync(UPLOAD_DIR).filter((name) => name.startsWith(`recording-${process.pid}-`));
+}
+
+describe('recognize server', () => {
+  it('matches a WAV clip', async () => {
+    const { status, body } = await recognize(fixture('tone.wav', 'audio/wav'));
+    assert.equal(status, 200);
+    assert.ok(body.success);
+    assert.equal(body.provider, 'mock');
+    assert.equal(body.cached, false);
+    assert.equal(body.data.track.key, MOCK_TRACK.key);
+    assert.ok(body.diagnostics.loudnessDbfs < 0);
+  });
+
+  it('matches an M4A clip and removes its scratch file', async () => {
+    const { status, body } = await recognize(fixture('tone.m4a', 'audio/mp4'));
+    assert.equal(status, 200);
+    assert.ok(body.success);
+    assert.deepEqual(ownScratchFiles(), []);
+  });
+
+  it('rejects a request without an audio file', async () => {
+    const form = new FormData();
+    form.append('capturedAt', String(Date.now()));
+    const { status, body } = await recognize(form);
+    assert.equal(status, 400);
+    assert.ok(!body.success);
+    assert.match(body.error, /No audio file uploaded/);
+  });
+
+  it('rejects a clip too short to fingerprint', async () => {
+    const { status, body } = await recognize(fixture('short.wav', 'audio/wav'));
+    assert.equal(status, 400);
+    assert.ok(!body.success);
+    assert.match(body.error, /too short/);
+  });
+
+  it('rejects a file that is not audio', async () => {
+    const { status, body } = await recognize(fixture('notes.txt', 'text/plain'));
+    assert.equal(status, 400);
+    assert.ok(!body.success);
+    assert.equal(body.error, 'Only audio files are allowed');
+  });
+
+  it('rejects an upload over RECOGNIZE_MAX_UPLOAD_MB', async () => {
+    const form = new FormData();
+    form.append('audio', new Blob([Buffer.alloc(0.2 * 1024 * 1024)], { type: 'audio/wav' }), 'long.wav');
+    const { status, body } = await recognize(form);
+    assert.equal(status, 413);
+    assert.ok(!body.success);
+  });
+
+  it('answers no-match when the provider finds nothing', async (t) => {
+    t.mock.method(providers[0], 'recognize', async () => null);
+    const { status, body } = await recognize(fixture('tone.wav', 'audio/wav'));
+    assert.equal(status, 200);
+    assert.ok(!body.success);
+    assert.equal(body.error, 'Could not identify the song.');
+  });
+
+  it('answers 500 when every provider fails', async (t) => {
+    t.mock.method(providers[0], 'recognize', async () => {
+      throw new Error('upstream unavailable');
+    });
+    const { status, body } = await recognize(fixture('tone.wav', 'audio/wav'));
+    assert.equal(status, 500);
+    assert.ok(!body.success);
+    assert.equal(body.error, 'upstream unavailable');
+  });
+
+  it('removes a batch upload once its job is done', async () => {
+    const res = await fetch(`${baseUrl}/api/batch`, { method: 'POST', body: fixture('tone.wav', 'audio/wav') });
+    assert.equal(res.status, 202);
+    const { job } = await res.json();
+
+    let status = job.status as string;
+    for (let i = 0; i < 100 && (status === 'queued' || status === 'running'); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const parsed = parse(batchResultResponseSchema, await (await fetch(`${baseUrl}/api/batch/${job.id}`)).json());
+      assert.ok(parsed.success);
+      status = parsed.data.job.status;
+    }
+    assert.equal(status, 'completed');
+    assert.deepEqual(ownScratchFiles(), []);
+  });
+});
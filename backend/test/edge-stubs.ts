@@ -0,0 +1,144 @@
+/**
+ * Stand-ins for running the Edge Functions' shared modules under Node: Deno.env, a
+ * logger that records instead of printing, and an in-memory Supabase client covering the
+ * table and RPC calls those modules make.
+ */
+
+import type { RequestLogger } from '../supabase/functions/_shared/logger.ts';
+
+/** Environment the modules read through Deno.env; tests set and clear entries. */
+export const denoEnv = new Map<string, string>();
+Object.assign(globalThis, { Deno: { env: { get: (name: string) => denoEnv.get(name) } } });
+
+export interface LoggedLine {
+  level: 'info' | 'warn' | 'error';
+  message: string;
+  fields?: Record<string, unknown>;
+}
+
+export function recordingLogger(): RequestLogger & { lines: LoggedLine[] } {
+  const lines: LoggedLine[] = [];
+  return {
+    lines,
+    requestId: 'test-request',
+    elapsedMs: () => 0,
+    info: (message, fields) => lines.push({ level: 'info', message, fields }),
+    warn: (message, fields) => lines.push({ level: 'warn', message, fields }),
+    error: (message, fields) => lines.push({ level: 'error', message, fields }),
+  };
+}
+
+type Row = Record<string, unknown>;
+type Result = { data: unknown; error: { message: string } | null; count?: number | null };
+
+/** One from(table) chain: select/delete/upsert with eq, in and lt filters. */
+class FakeQuery implements PromiseLike<Result> {
+  private action: 'select' | 'delete' = 'select';
+  private columns: string[] | null = null;
+  private filters: ((row: Row) => boolean)[] = [];
+  private single = false;
+  private counted = false;
+
+  constructor(
+    private readonly db: FakeSupabase,
+    private readonly table: string
+  ) {}
+
+  select(columns: string) {
+    this.columns = columns.split(',').map((column) => column.trim());
+    return this;
+  }
+
+  delete(options?: { count?: string }) {
+    this.action = 'delete';
+    this.counted = Boolean(options?.count);
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  /** ISO timestamps compare in time order as strings. */
+  lt(column: string, value: string) {
+    this.filters.push((row) => String(row[column]) < value);
+    return this;
+  }
+
+  maybeSingle() {
+    this.single = true;
+    return this;
+  }
+
+  async upsert(row: Row): Promise<Result> {
+    if (this.db.failing.has(this.table)) return { data: null, error: { message: `${this.table} unavailable` } };
+    const key = this.db.primaryKeys[this.table] ?? 'id';
+    const rows = this.db.rows(this.table);
+    const existing = rows.findIndex((other) => other[key] === row[key]);
+    if (existing >= 0) rows[existing] = { ...rows[existing], ...row };
+    else rows.push({ ...row });
+    return { data: null, error: null };
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+
+  private run(): Result {
+    if (this.db.failing.has(this.table)) return { data: null, error: { message: `${this.table} unavailable` } };
+    const rows = this.db.rows(this.table);
+    const matching = rows.filter((row) => this.filters.every((filter) => filter(row)));
+    if (this.action === 'delete') {
+      this.db.tables.set(this.table, rows.filter((row) => !matching.includes(row)));
+      return { data: null, error: null, count: this.counted ? matching.length : null };
+    }
+    const picked = matching.map((row) =>
+      this.columns ? Object.fromEntries(this.columns.map((column) => [column, row[column]])) : { ...row }
+    );
+    return { data: this.single ? (picked[0] ?? null) : picked, error: null };
+  }
+}
+
+/** In-memory stand-in for the service-role Supabase client. */
+export class FakeSupabase {
+  readonly tables = new Map<string, Row[]>();
+  /** Tables and RPC functions that answer with an error. */
+  readonly failing = new Set<string>();
+  readonly rpcCalls: { fn: string; args: Row }[] = [];
+
+  constructor(
+    /** Upsert conflict column per table. */
+    readonly primaryKeys: Record<string, string> = {},
+    /** RPC implementations by function name. */
+    private readonly functions: Record<string, (args: Row) => unknown> = {}
+  ) {}
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(fn: string, args: Row): Promise<Result> {
+    this.rpcCalls.push({ fn, args });
+    if (this.failing.has(fn)) return { data: null, error: { message: `${fn} failed` } };
+    return { data: this.functions[fn]?.(args) ?? null, error: null };
+  }
+
+  /** This fake where the modules expect a SupabaseClient. */
+  client<T>(): T {
+    return this as unknown as T;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Local fingerprint database: matching clips against reference songs, the on-disk format,
+ * and the ingest script, all on synthetic audio so nothing leaves the machine.
+ */
+
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { after, before, describe, it } from 'node:test';
+import { Shazam } from 'node-shazam';
+import { SAMPLE_RATE } from '../recognize/audio.js';
+import { landmarksFromSignature, type Landmark } from '../recognize/fingerprint.js';
+import { FingerprintIndex } from '../recognize/fingerprint-db/index.js';
+import type { RecognizedTrack } from '../recognize/providers/types.js';
+import { melody, noise, wavFile } from './synthetic-audio.js';
+
+const BACKEND = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const SONG: RecognizedTrack = { key: 'synthetic-song', title: 'Synthetic Song', subtitle: 'Test Tones' };
+const OTHER_SONG: RecognizedTrack = { key: 'other-song', title: 'Other Song', subtitle: 'Test Tones' };
+
+const shazam = new Shazam();
+
+function landmarks(samples: number[]): Landmark[] {
+  const signature = shazam.createSignatureGenerator(samples).getNextSignature();
+  return signature ? landmarksFromSignature(signature) : [];
+}
+
+const song = melody(1, 12);
+const songLandmarks = landmarks(song);
+let tmpDir: string;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fingerprint-db-test-'));
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('FingerprintIndex', () => {
+  const index = new FingerprintIndex();
+  index.addTrack(SONG, songLandmarks, 'song.wav');
+  index.addTrack(OTHER_SONG, landmarks(melody(2, 6)), 'other.wav');
+
+  it('matches a clip to its song, with the offset it was cut at', () => {
+    const clip = landmarks(song.slice(5 * SAMPLE_RATE, 10 * SAMPLE_RATE));
+    const match = index.match(clip);
+    assert.ok(match);
+    assert.equal(match.track.key, SONG.key);
+    assert.ok(Math.abs(match.offsetSeconds - 5) < 0.05, `offset ${match.offsetSeconds}`);
+    assert.ok(match.score > 0.5, `score ${match.score}`);
+    assert.ok(match.votes >= 12);
+  });
+
+  it('rejects a clip that is not in the index', () => {
+    const clip = noise(99, 3);
+    assert.ok(landmarks(clip).length > 0);
+    assert.equal(index.match(landmarks(clip)), null);
+    assert.equal(index.match([]), null);
+  });
+
+  it('replaces a track ingested again under the same key', () => {
+    const copy = new FingerprintIndex();
+    copy.addTrack(SONG, [{ hash: 1, time: 0 }], 'old.wav');
+    copy.addTrack(SONG, songLandmarks, 'song.wav');
+    assert.equal(copy.size, 1);
+    assert.equal(copy.listTracks()[0].source, 'song.wav');
+    assert.equal(copy.listTracks()[0].landmarkCount, songLandmarks.length);
+  });
+
+  it('loads what it saved', () => {
+    const file = path.join(tmpDir, 'roundtrip.fpdb');
+    index.save(file);
+    const loaded = FingerprintIndex.load(file);
+    assert.deepEqual(loaded.listTracks(), index.listTracks());
+
+    const clip = landmarks(song.slice(6 * SAMPLE_RATE, 10 * SAMPLE_RATE));
+    assert.deepEqual(loaded.match(clip), index.match(clip));
+  });
+
+  it('refuses an index written in another format version', () => {
+    const file = path.join(tmpDir, 'future.fpdb');
+    const header = Buffer.from(JSON.stringify({ version: 2, tracks: [] }), 'utf8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(header.length, 0);
+    fs.writeFileSync(file, Buffer.concat([length, header]));
+    assert.throws(() => FingerprintIndex.load(file), /Unsupported fingerprint index version 2/);
+  });
+});
+
+describe('fingerprint:ingest', () => {
+  it('builds an index from a manifest and skips silent files', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'song.wav'), wavFile(song));
+    fs.writeFileSync(path.join(tmpDir, 'silence.wav'), wavFile(new Array(5 * SAMPLE_RATE).fill(0)));
+    const manifest = path.join(tmpDir, 'manifest.json');
+    fs.writeFileSync(
+      manifest,
+      JSON.stringify([
+        { file: 'song.wav', ...SONG },
+        { file: 'silence.wav', ...OTHER_SONG },
+      ])
+    );
+    const indexPath = path.join(tmpDir, 'ingested.fpdb');
+
+    const { stdout, stderr } = await promisify(execFile)(
+      path.join(BACKEND, 'node_modules', '.bin', 'tsx'),
+      ['recognize/fingerprint-db/ingest.ts', manifest, indexPath],
+      { cwd: BACKEND, timeout: 60_000, env: { ...process.env, RECOGNIZE_PREPROCESS: '' } }
+    );
+    assert.match(stdout, /Saved 1 tracks/);
+    assert.match(stderr, /skipped silence\.wav/);
+
+    const index = FingerprintIndex.load(indexPath);
+    assert.deepEqual(
+      index.listTracks().map(({ track, source }) => ({ track, source })),
+      [{ track: SONG, source: 'song.wav' }]
+    );
+    assert.equal(index.listTracks()[0].landmarkCount, songLandmarks.length);
+  });
+});
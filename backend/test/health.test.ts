@@ -0,0 +1,37 @@
+/**
+ * Readiness probe: deep checks, and failing fast once shutdown starts draining.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ReadinessProbe } from '../recognize/health.js';
+import { MockProvider } from '../recognize/providers/mock.js';
+
+describe('ReadinessProbe', () => {
+  it('is ready when ffmpeg, the upload dir, the sample decode and a provider work', async () => {
+    const probe = new ReadinessProbe([new MockProvider()], { minFreeBytes: 0, cacheMs: 60_000 });
+    const report = await probe.check();
+    assert.equal(report.ready, true, JSON.stringify(report.checks));
+    assert.deepEqual(Object.keys(report.checks), ['ffmpeg', 'uploadDir', 'decode', 'providers']);
+  });
+
+  it('reports not ready as soon as shutdown starts, even with a fresh ready report', async () => {
+    const probe = new ReadinessProbe([new MockProvider()], { minFreeBytes: 0, cacheMs: 60_000 });
+    assert.equal((await probe.check()).ready, true);
+
+    probe.markDraining();
+    const report = await probe.check();
+    assert.equal(report.ready, false);
+    assert.deepEqual(report.checks, { shutdown: { ok: false, durationMs: 0, error: 'Shutting down' } });
+  });
+
+  it('fails when no provider is healthy', async (t) => {
+    const provider = new MockProvider();
+    t.mock.method(provider, 'checkHealth', async () => {
+      throw new Error('unreachable');
+    });
+    const report = await new ReadinessProbe([provider], { minFreeBytes: 0, cacheMs: 0 }).check();
+    assert.equal(report.ready, false);
+    assert.equal(report.checks.providers.ok, false);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Track metadata in several locales: request checking, script detection and title variants.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseLocaleRequest, titleScript, TrackLocalizer, type LocaleRequest } from '../recognize/locales.js';
+import { MOCK_TRACK, MOCK_TRACK_HINDI, MockProvider } from '../recognize/providers/mock.js';
+import type { ProviderMatch } from '../recognize/providers/index.js';
+
+const DEFAULTS: LocaleRequest = { locale: 'en-US', metadataLocales: [] };
+const MATCH: ProviderMatch = { provider: 'mock', track: MOCK_TRACK };
+
+function localizer(provider = new MockProvider()) {
+  return new TrackLocalizer([provider], { defaultLocale: 'en-US', ttlMs: 60 * 1000, maxEntries: 10 });
+}
+
+describe('parseLocaleRequest', () => {
+  it('takes the defaults for missing fields', () => {
+    assert.deepEqual(parseLocaleRequest(undefined, undefined, { locale: 'en-US', metadataLocales: ['hi-IN'] }), {
+      ok: true,
+      request: { locale: 'en-US', metadataLocales: ['hi-IN'] },
+    });
+  });
+
+  it('reads a comma-separated list', () => {
+    const result = parseLocaleRequest('hi-IN', ' en-US, pa ', DEFAULTS);
+    assert.ok(result.ok);
+    assert.deepEqual(result.request, { locale: 'hi-IN', metadataLocales: ['en-US', 'pa'] });
+  });
+
+  it('rejects malformed and too many locales', () => {
+    assert.equal(parseLocaleRequest('hindi', undefined, DEFAULTS).ok, false);
+    assert.equal(parseLocaleRequest(undefined, 'hi-IN,en-US,pa,ta,te', DEFAULTS).ok, false);
+  });
+});
+
+describe('titleScript', () => {
+  it('names the script most letters are in', () => {
+    assert.equal(titleScript('Kesariya'), 'latin');
+    assert.equal(titleScript(MOCK_TRACK_HINDI.title), 'devanagari');
+    assert.equal(titleScript('ਲੌਂਗ ਲਾਚੀ'), 'gurmukhi');
+    assert.equal(titleScript('Kesariya (केसरिया)'), 'latin');
+  });
+});
+
+describe('TrackLocalizer', () => {
+  it('titles the track in the requested locale and lists every variant', async () => {
+    const track = await localizer().localize(MATCH, { locale: 'hi-IN', metadataLocales: [] });
+    assert.equal(track.title, MOCK_TRACK_HINDI.title);
+    assert.deepEqual(track.titleVariants, [
+      { locale: 'hi-IN', script: 'devanagari', ...MOCK_TRACK_HINDI },
+      { locale: 'en-US', script: 'latin', title: MOCK_TRACK.title, subtitle: MOCK_TRACK.subtitle },
+    ]);
+  });
+
+  it('leaves the track alone when only the default locale is wanted', async () => {
+    assert.equal(await localizer().localize(MATCH, DEFAULTS), MOCK_TRACK);
+  });
+
+  it('falls back to the default title when a lookup fails', async () => {
+    const provider = new MockProvider();
+    provider.localizeTrack = async () => {
+      throw new Error('upstream timeout');
+    };
+    const track = await localizer(provider).localize(MATCH, { locale: 'hi-IN', metadataLocales: [] });
+    assert.equal(track.title, MOCK_TRACK.title);
+    assert.deepEqual(track.titleVariants?.map((variant) => variant.locale), ['en-US']);
+  });
+
+  it('reuses looked-up titles', async () => {
+    const provider = new MockProvider();
+    let lookups = 0;
+    const lookup = provider.localizeTrack.bind(provider);
+    provider.localizeTrack = (key, locale) => {
+      lookups++;
+      return lookup(key, locale);
+    };
+    const titles = localizer(provider);
+    await titles.localize(MATCH, { locale: 'en-US', metadataLocales: ['hi-IN'] });
+    await titles.localize(MATCH, { locale: 'hi-IN', metadataLocales: [] });
+    assert.equal(lookups, 1);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Structured logger: one JSON line per entry, tagged with the request id of the work it belongs to.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { log, resolveRequestId, withRequestId } from '../recognize/logger.js';
+
+/** Log lines written to stdout and stderr while fn runs. */
+async function captureLines(fn: () => unknown): Promise<Record<string, unknown>[]> {
+  const lines: string[] = [];
+  const streams = [process.stdout, process.stderr];
+  const writes = streams.map((stream) => stream.write);
+  streams.forEach((stream, i) => {
+    stream.write = ((chunk: string | Uint8Array, ...rest: unknown[]) => {
+      // The test runner reports over stdout too; let its frames through
+      if (typeof chunk === 'string' && chunk.startsWith('{')) lines.push(chunk);
+      else return (writes[i] as (...args: unknown[]) => boolean).call(stream, chunk, ...rest);
+      return true;
+    }) as typeof stream.write;
+  });
+  try {
+    await fn();
+  } finally {
+    streams.forEach((stream, i) => (stream.write = writes[i]));
+  }
+  return lines.map((line) => JSON.parse(line));
+}
+
+describe('logger', () => {
+  it('writes JSON with severity, fields and serialized errors', async () => {
+    const [info, error] = await captureLines(() => {
+      log.info('recognition finished', { outcome: 'matched', durationMs: 812 });
+      log.error('recognition failed', { err: new Error('ffmpeg exited with code 1') });
+    });
+    assert.equal(info.severity, 'INFO');
+    assert.equal(info.message, 'recognition finished');
+    assert.equal(info.outcome, 'matched');
+    assert.equal(info.durationMs, 812);
+    assert.equal(error.severity, 'ERROR');
+    assert.equal((error.err as { message: string }).message, 'ffmpeg exited with code 1');
+  });
+
+  it('tags lines with the request id across awaits', async () => {
+    const lines = await captureLines(() =>
+      withRequestId('rec-123', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        log.info('stream window finished');
+      })
+    );
+    assert.equal(lines[0].requestId, 'rec-123');
+  });
+
+  it('keeps usable client ids and replaces the rest', () => {
+    assert.equal(resolveRequestId('3f1c2a9e-7b1d-4c55-9a0e-2f6b8f3d1a77'), '3f1c2a9e-7b1d-4c55-9a0e-2f6b8f3d1a77');
+    assert.notEqual(resolveRequestId('bad id\nwith newline'), 'bad id\nwith newline');
+    assert.match(resolveRequestId(undefined), /^[0-9a-f-]{36}$/);
+  });
+});
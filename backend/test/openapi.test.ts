@@ -0,0 +1,242 @@
+/**
+ * The OpenAPI document against the real handlers: every route is documented, and every
+ * answer the handlers give has a documented status and a body matching its schema.
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { formatIssues, parse } from '../contract/index.js';
+import { signClientToken } from '../recognize/client-token.js';
+import type { Operation } from '../recognize/openapi.js';
+
+const ALLOWED_ORIGIN = 'https://app.example';
+const TOKEN_SECRET = 'openapi-test-secret';
+
+process.env.RECOGNIZE_PROVIDERS = 'mock';
+process.env.CORS_ORIGINS = ALLOWED_ORIGIN;
+process.env.RECOGNIZE_TOKEN_SECRET = TOKEN_SECRET;
+process.env.RECOGNIZE_REQUIRE_TOKEN = 'true';
+process.env.RATE_LIMIT_MAX_PER_CLIENT = '2';
+
+let server: Server;
+let baseUrl: string;
+let operations: Operation[];
+let app: typeof import('../recognize/server.js')['app'];
+
+before(async () => {
+  // Imported after the env is set; the server reads its config at load
+  const module = await import('../recognize/server.js');
+  app = module.app;
+  operations = module.operations;
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+/** 2 s 440 Hz mono WAV; the mock provider matches any non-empty clip. */
+function toneWav(seconds = 2, sampleRate = 16000): Buffer {
+  const samples = seconds * sampleRate;
+  const wav = Buffer.alloc(44 + samples * 2);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples * 2, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples * 2, 40);
+  for (let i = 0; i < samples; i++) {
+    wav.writeInt16LE(Math.round(8000 * Math.sin((2 * Math.PI * 440 * i) / sampleRate)), 44 + i * 2);
+  }
+  return wav;
+}
+
+function audioForm(data: Buffer, fileName = 'clip.wav', type = 'audio/wav'): FormData {
+  const form = new FormData();
+  form.append('audio', new Blob([data], { type }), fileName);
+  return form;
+}
+
+function findOperation(method: string, path: string): Operation | undefined {
+  return operations.find(
+    (op) => op.method === method && new RegExp(`^${op.path.replace(/:\w+/g, '[^/]+')}$`).test(path)
+  );
+}
+
+function bearer(clientId: string = crypto.randomUUID()): string {
+  return `Bearer ${signClientToken(TOKEN_SECRET, clientId, 60)}`;
+}
+
+/** Send a request (as a new client unless headers say otherwise) and check the answer against the document. */
+async function call(method: 'get' | 'post', path: string, init: RequestInit = {}) {
+  const res = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    method: method.toUpperCase(),
+    headers: { Authorization: bearer(), ...(init.headers as Record<string, string>) },
+  });
+  const op = findOperation(method, path);
+  assert.ok(op, `${method.toUpperCase()} ${path} is not documented`);
+  const response = op.responses[res.status];
+  assert.ok(response, `${method.toUpperCase()} ${op.path} answered ${res.status}, which is not documented`);
+
+  const text = await res.text();
+  if (response.schema) {
+    const result = parse(response.schema, JSON.parse(text));
+    assert.ok(result.success, `${op.path} ${res.status} body doesn't match the document: ${!result.success && formatIssues(result.issues)}\n${text}`);
+  } else {
+    assert.match(res.headers.get('content-type') ?? '', new RegExp(`^${response.contentType}`));
+  }
+  for (const header of Object.keys(response.headers ?? {})) {
+    assert.ok(res.headers.get(header), `${op.path} ${res.status} is missing the documented ${header} header`);
+  }
+  return { status: res.status, body: response.schema ? JSON.parse(text) : text };
+}
+
+describe('OpenAPI document', () => {
+  it('documents exactly the routes the app serves', () => {
+    const stack = (app as unknown as { _router: { stack: Array<{ route?: { path: string; methods: Record<string, boolean> } }> } })
+      ._router.stack;
+    const served = stack
+      .filter((layer) => layer.route)
+      .flatMap((layer) => Object.keys(layer.route!.methods).map((method) => `${method} ${layer.route!.path}`))
+      .sort();
+    const documented = operations.map((op) => `${op.method} ${op.path}`).sort();
+    assert.deepEqual(documented, served);
+  });
+
+  it('is served as OpenAPI 3.1 with the docs page', async () => {
+    const { body } = await call('get', '/api/openapi.json');
+    const document = JSON.parse(body as string);
+    assert.equal(document.openapi, '3.1.0');
+    assert.ok(document.paths['/api/batch/{id}'].get);
+    assert.ok(document.paths['/api/recognize'].post.responses['413']);
+
+    const { body: page } = await call('get', '/api/docs');
+    assert.match(page as string, /\/api\/openapi\.json/);
+  });
+});
+
+describe('POST /api/recognize', () => {
+  it('answers a match', async () => {
+    const { status, body } = await call('post', '/api/recognize', { body: audioForm(toneWav()) });
+    assert.equal(status, 200);
+    assert.equal(body.success, true);
+  });
+
+  it('answers in the requested locale with title variants', async () => {
+    const form = audioForm(toneWav());
+    form.append('locale', 'hi-IN');
+    const { status, body } = await call('post', '/api/recognize', { body: form });
+    assert.equal(status, 200);
+    assert.equal(body.data.track.title, 'केसरिया');
+    assert.deepEqual(body.data.track.titleVariants.map((variant: { script: string }) => variant.script), ['devanagari', 'latin']);
+  });
+
+  it('rejects an invalid locale', async () => {
+    const form = audioForm(toneWav());
+    form.append('metadataLocales', 'hindi');
+    assert.equal((await call('post', '/api/recognize', { body: form })).status, 400);
+  });
+
+  it('echoes the request id, or assigns one', async () => {
+    const echoed = await fetch(`${baseUrl}/api/recognize`, {
+      method: 'POST',
+      body: audioForm(toneWav()),
+      headers: { Authorization: bearer(), 'X-Request-Id': 'trace-me-1' },
+    });
+    assert.equal(echoed.headers.get('X-Request-Id'), 'trace-me-1');
+    const assigned = await fetch(`${baseUrl}/api/health`);
+    assert.ok(assigned.headers.get('X-Request-Id'));
+  });
+
+  it('rejects a missing upload', async () => {
+    const form = new FormData();
+    form.append('capturedAt', String(Date.now()));
+    assert.equal((await call('post', '/api/recognize', { body: form })).status, 400);
+  });
+
+  it('rejects a clip too short to fingerprint', async () => {
+    assert.equal((await call('post', '/api/recognize', { body: audioForm(toneWav(0.01)) })).status, 400);
+  });
+
+  it('rejects files that are not audio', async () => {
+    const { status } = await call('post', '/api/recognize', { body: audioForm(Buffer.from('hello'), 'notes.txt', 'text/plain') });
+    assert.equal(status, 400);
+  });
+
+  it('rejects uploads over the size limit', async () => {
+    const { status } = await call('post', '/api/recognize', { body: audioForm(Buffer.alloc(11 * 1024 * 1024)) });
+    assert.equal(status, 413);
+  });
+
+  it('rejects missing and invalid client tokens', async () => {
+    const invalid = await call('post', '/api/recognize', {
+      body: audioForm(toneWav()),
+      headers: { Authorization: 'Bearer not-a-token' },
+    });
+    assert.equal(invalid.status, 401);
+    const expired = signClientToken(TOKEN_SECRET, 'expired', -120);
+    assert.equal((await call('get', '/api/batch/nope', { headers: { Authorization: `Bearer ${expired}` } })).status, 401);
+  });
+
+  it('rejects other origins', async () => {
+    const { status } = await call('post', '/api/recognize', {
+      body: audioForm(toneWav()),
+      headers: { Origin: 'https://elsewhere.example' },
+    });
+    assert.equal(status, 403);
+  });
+
+  it('rate limits one client', async () => {
+    const headers = { Authorization: bearer('rate-limited-client') };
+    const statuses: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await call('post', '/api/recognize', { body: audioForm(toneWav()), headers })).status);
+    }
+    assert.deepEqual(statuses, [200, 200, 429]);
+  });
+});
+
+describe('batch endpoints', () => {
+  it('queue, report and cancel a job', async () => {
+    const { status, body } = await call('post', '/api/batch', { body: audioForm(toneWav(30)) });
+    assert.equal(status, 202);
+    const id = body.job.id as string;
+
+    assert.equal((await call('get', `/api/batch/${id}`)).status, 200);
+    assert.equal((await call('get', `/api/batch/${id}/progress`)).status, 200);
+    const cancel = await call('post', `/api/batch/${id}/cancel`);
+    // The 30 s job may already be done on a fast machine
+    assert.ok(cancel.status === 200 || cancel.status === 409);
+  });
+
+  it('report unknown jobs', async () => {
+    assert.equal((await call('get', '/api/batch/nope')).status, 404);
+    assert.equal((await call('get', '/api/batch/nope/progress')).status, 404);
+    assert.equal((await call('post', '/api/batch/nope/cancel')).status, 404);
+  });
+
+  it('reject a missing upload', async () => {
+    assert.equal((await call('post', '/api/batch', { body: new FormData() })).status, 400);
+  });
+});
+
+describe('operational endpoints', () => {
+  it('answer as documented', async () => {
+    assert.equal((await call('get', '/api/health')).status, 200);
+    assert.ok([200, 503].includes((await call('get', '/api/ready')).status));
+    assert.equal((await call('get', '/api/cache/stats')).status, 200);
+    assert.equal((await call('get', '/metrics')).status, 200);
+  });
+});
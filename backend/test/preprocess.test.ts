@@ -0,0 +1,122 @@
+/**
+ * Preprocessing chain and input diagnostics, on synthetic sines and noise at known levels.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SAMPLE_RATE } from '../recognize/audio.js';
+import { measureAudio, Preprocessor, type PreprocessOptions, type PreprocessStep } from '../recognize/preprocess.js';
+import { noise } from './synthetic-audio.js';
+
+const FULL_SCALE = 32768;
+const OPTIONS: PreprocessOptions = { highpassHz: 200, lowpassHz: 3000, gateDbfs: -50, targetDbfs: -20 };
+
+/** Sine at frequencyHz whose RMS level is rmsDbfs. */
+function sine(frequencyHz: number, rmsDbfs: number, seconds = 1): number[] {
+  const amplitude = FULL_SCALE * 10 ** (rmsDbfs / 20) * Math.SQRT2;
+  return Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) =>
+    Math.round(amplitude * Math.sin((2 * Math.PI * frequencyHz * i) / SAMPLE_RATE))
+  );
+}
+
+function dbfs(samples: number[]): number {
+  const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+  return 20 * Math.log10(rms / FULL_SCALE);
+}
+
+function peak(samples: number[]): number {
+  return samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+}
+
+function run(steps: PreprocessStep[], samples: number[]): number[] {
+  return new Preprocessor(steps, OPTIONS).run(samples).samples;
+}
+
+/** Drop the filter's settling time at the start. */
+const settled = (samples: number[]) => samples.slice(SAMPLE_RATE / 10);
+
+describe('Preprocessor', () => {
+  it('passes samples through untouched with no steps', () => {
+    const input = sine(440, -20, 0.1);
+    assert.equal(run([], input), input);
+  });
+
+  it('highpass removes sub-bass and keeps the mids', () => {
+    assert.ok(dbfs(settled(run(['highpass'], sine(40, -20)))) < -45);
+    assert.ok(Math.abs(dbfs(settled(run(['highpass'], sine(2000, -20)))) + 20) < 0.5);
+  });
+
+  it('lowpass removes highs and keeps the mids', () => {
+    assert.ok(dbfs(settled(run(['lowpass'], sine(7000, -20)))) < -35);
+    assert.ok(Math.abs(dbfs(settled(run(['lowpass'], sine(500, -20)))) + 20) < 0.5);
+  });
+
+  it('gate silences frames below its threshold and leaves louder ones alone', () => {
+    const quiet = sine(1000, -60, 0.128); // 4 frames of 512
+    const loud = sine(1000, -20, 0.128);
+    const output = run(['gate'], [...quiet, ...loud]);
+    assert.deepEqual(output.slice(0, quiet.length), new Array(quiet.length).fill(0));
+    assert.deepEqual(output.slice(quiet.length), loud);
+  });
+
+  it('normalize brings the level to its target', () => {
+    const output = run(['normalize'], sine(1000, -40));
+    assert.ok(Math.abs(dbfs(output) + 20) < 0.1, `level ${dbfs(output)}`);
+  });
+
+  it('normalize keeps peaks under the ceiling', () => {
+    // Mostly quiet with one loud click: reaching -20 dBFS RMS would clip the click
+    const input = sine(1000, -50);
+    input[1000] = 16000;
+    const output = run(['normalize'], input);
+    assert.equal(peak(output), Math.round(0.95 * FULL_SCALE));
+    assert.ok(dbfs(output) < -20);
+  });
+
+  it('normalize adds at most 30 dB, so near-silence stays quiet', () => {
+    const output = run(['normalize'], sine(1000, -80));
+    assert.ok(Math.abs(dbfs(output) + 50) < 0.5, `level ${dbfs(output)}`);
+  });
+
+  it('clamps to the s16 range and reports diagnostics of the input', () => {
+    const input = sine(1000, -40);
+    const { samples, diagnostics } = new Preprocessor(['normalize'], { ...OPTIONS, targetDbfs: 10 }).run(input);
+    assert.ok(samples.every((s) => Number.isInteger(s) && s >= -32768 && s <= 32767));
+    assert.deepEqual(diagnostics, measureAudio(input));
+  });
+});
+
+describe('measureAudio', () => {
+  /** Music with quiet passages, so the loud frames stand out from the quiet ones. */
+  const dynamic = (loudDbfs: number) => [...sine(1000, loudDbfs, 0.5), ...sine(1000, loudDbfs - 40, 0.5)];
+
+  it('measures level, peak and SNR of clean input without warnings', () => {
+    const diagnostics = measureAudio(sine(1000, -20));
+    assert.equal(diagnostics.loudnessDbfs, -20);
+    assert.equal(diagnostics.peakDbfs, -17);
+    assert.equal(diagnostics.clippingRatio, 0);
+    assert.deepEqual(measureAudio(dynamic(-20)).warnings, []);
+    assert.ok(Math.abs(measureAudio(dynamic(-20)).estimatedSnrDb - 40) < 0.5);
+  });
+
+  it('warns about quiet, clipped and noisy input', () => {
+    assert.deepEqual(measureAudio(dynamic(-50)).warnings, ['too-quiet']);
+
+    const clipped = dynamic(-20).map((s) => Math.max(-32768, Math.min(32767, s * 10)));
+    assert.ok(measureAudio(clipped).clippingRatio > 0.2);
+    assert.deepEqual(measureAudio(clipped).warnings, ['clipping']);
+
+    // Steady noise: every frame is the same level, so no signal stands out
+    assert.deepEqual(measureAudio(noise(7, 1)).warnings, ['noisy']);
+  });
+
+  it('handles empty input', () => {
+    assert.deepEqual(measureAudio([]), {
+      loudnessDbfs: -120,
+      peakDbfs: -120,
+      clippingRatio: 0,
+      estimatedSnrDb: 0,
+      warnings: ['too-quiet', 'noisy'],
+    });
+  });
+});
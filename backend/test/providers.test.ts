@@ -0,0 +1,100 @@
+/**
+ * Provider chain: order, falling through to the next provider on errors and timeouts,
+ * and the timeout wrapper cancelling the call it gave up on.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setLogLevel } from '../recognize/logger.js';
+import { MOCK_TRACK } from '../recognize/providers/mock.js';
+import { recognizeWithProviders, withTimeout } from '../recognize/providers/index.js';
+import type { DecodedAudio, ProviderName, ProviderResult, RecognitionProvider } from '../recognize/providers/types.js';
+
+setLogLevel('error');
+
+const audio: DecodedAudio = { samples: [1, 2, 3], signature: null };
+
+/** Answers with the given behaviour, recording its calls and the signal it got. */
+class StubProvider implements RecognitionProvider {
+  calls = 0;
+  signal: AbortSignal | undefined;
+
+  constructor(
+    readonly name: ProviderName,
+    private answer: (signal?: AbortSignal) => Promise<ProviderResult | null>
+  ) {}
+
+  async recognize(_audio: DecodedAudio, signal?: AbortSignal): Promise<ProviderResult | null> {
+    this.calls++;
+    this.signal = signal;
+    return this.answer(signal);
+  }
+
+  async checkHealth(): Promise<void> {}
+}
+
+const match = (title: string): ProviderResult => ({ track: { ...MOCK_TRACK, title } });
+const noMatch = () => new StubProvider('local', async () => null);
+const matching = (name: ProviderName, title: string) => new StubProvider(name, async () => match(title));
+const failing = (name: ProviderName, message: string) =>
+  new StubProvider(name, async () => {
+    throw new Error(message);
+  });
+/** Answers only when aborted, by throwing the abort reason. */
+const hanging = (name: ProviderName) =>
+  new StubProvider(
+    name,
+    (signal) =>
+      new Promise((_, reject) => signal?.addEventListener('abort', () => reject(signal.reason), { once: true }))
+  );
+
+describe('recognizeWithProviders', () => {
+  it('tries providers in order and stops at the first match', async () => {
+    const [first, second, third] = [noMatch(), matching('shazam', 'Second'), matching('mock', 'Third')];
+    const result = await recognizeWithProviders([first, second, third], audio);
+    assert.equal(result?.track.title, 'Second');
+    assert.equal(result?.provider, 'shazam');
+    assert.deepEqual([first.calls, second.calls, third.calls], [1, 1, 0]);
+  });
+
+  it('moves on to the next provider when one throws', async () => {
+    const result = await recognizeWithProviders([failing('shazam', 'outage'), matching('local', 'Local')], audio);
+    assert.equal(result?.provider, 'local');
+  });
+
+  it('moves on when one times out', async () => {
+    const slow = hanging('shazam');
+    const result = await recognizeWithProviders([withTimeout(slow, 20), matching('local', 'Local')], audio);
+    assert.equal(result?.provider, 'local');
+    assert.equal(slow.signal?.aborted, true);
+  });
+
+  it('is null when any provider answered, even if others failed', async () => {
+    assert.equal(await recognizeWithProviders([failing('shazam', 'outage'), noMatch()], audio), null);
+    assert.equal(await recognizeWithProviders([], audio), null);
+  });
+
+  it('rethrows the last error when no provider answered', async () => {
+    await assert.rejects(
+      recognizeWithProviders([failing('shazam', 'outage'), failing('local', 'no index')], audio),
+      /no index/
+    );
+  });
+});
+
+describe('withTimeout', () => {
+  it('passes answers within the timeout through', async () => {
+    const provider = matching('shazam', 'Fast');
+    const result = await withTimeout(provider, 1000).recognize(audio);
+    assert.equal(result?.track.title, 'Fast');
+    assert.equal(provider.signal?.aborted, false);
+  });
+
+  it('rejects after timeoutMs and aborts the call with the same error', async () => {
+    const provider = hanging('shazam');
+    const started = Date.now();
+    await assert.rejects(withTimeout(provider, 30).recognize(audio), /Provider shazam timed out after 30 ms/);
+    assert.ok(Date.now() - started >= 25);
+    assert.match(String(provider.signal?.reason), /timed out after 30 ms/);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Ranking of youtube-search results: title keywords, song title, shape, popularity and channel,
+ * and the signals read from videos.list.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  parseDuration,
+  rankVideos,
+  scoreVideo,
+  videoSignals,
+  type CandidateVideo,
+  type RankingOptions,
+} from '../supabase/functions/_shared/ranking.ts';
+
+const OPTIONS: RankingOptions = { songTitle: 'Kesariya', channelAllowlist: [] };
+
+function video(title: string, signals: Partial<CandidateVideo> = {}): CandidateVideo {
+  return { id: title, title, channelTitle: 'Some Channel', thumbnail: '', description: '', ...signals };
+}
+
+describe('scoreVideo', () => {
+  it('rewards hookstep keywords and the song title', () => {
+    const { score, reasons } = scoreVideo(video('Kesariya Hookstep Tutorial | Easy Steps'), OPTIONS);
+    assert.deepEqual(reasons, [
+      'hookstep in title (+4)',
+      'tutorial in title (+3)',
+      'easy steps in title (+2)',
+      'song title in title (+3)',
+    ]);
+    assert.equal(score, 12);
+  });
+
+  it('penalizes lyric and reaction videos', () => {
+    const { score, reasons } = scoreVideo(video('Kesariya Lyrical Video'), OPTIONS);
+    assert.deepEqual(reasons, ['lyrics in title (-5)', 'song title in title (+3)']);
+    assert.equal(score, -2);
+    assert.ok(scoreVideo(video('Reacting to Kesariya | REACTION'), OPTIONS).score < 0);
+  });
+
+  it('matches the song title without bracketed parts', () => {
+    const options = { ...OPTIONS, songTitle: 'Kesariya (From "Brahmastra")' };
+    assert.ok(scoreVideo(video('kesariya dance'), options).reasons.includes('song title in title (+3)'));
+    assert.ok(
+      scoreVideo(video('Tum Kesariya dance'), { ...OPTIONS, songTitle: 'Kesariya Tera' }).reasons.includes(
+        'part of song title in title (+1)'
+      )
+    );
+  });
+
+  it('scores duration, shape and statistics', () => {
+    const { reasons } = scoreVideo(
+      video('dance', { durationSeconds: 30, vertical: true, viewCount: 1_000_000, likeCount: 50_000 }),
+      OPTIONS
+    );
+    assert.deepEqual(reasons, ['short (30 s) (+1)', 'vertical (+1)', '1M views (+3)', '50k likes (+1)']);
+    assert.deepEqual(scoreVideo(video('dance', { durationSeconds: 200, viewCount: 500 }), OPTIONS).reasons, [
+      'long (200 s) (-2)',
+    ]);
+  });
+
+  it('boosts allowlisted channels by id or title', () => {
+    const options = { ...OPTIONS, channelAllowlist: ['UCabc', 'the dance studio'] };
+    assert.equal(scoreVideo(video('dance', { channelId: 'UCabc' }), options).score, 3);
+    assert.equal(scoreVideo(video('dance', { channelTitle: 'The Dance Studio ' }), options).score, 3);
+    assert.equal(scoreVideo(video('dance'), options).score, 0);
+  });
+});
+
+describe('rankVideos', () => {
+  it('orders best first, keeps YouTube order on ties and drops the signals', () => {
+    const ranked = rankVideos(
+      [
+        video('Kesariya lyrics'),
+        video('Kesariya cover A', { viewCount: 10 }),
+        video('Kesariya cover B'),
+        video('Kesariya hookstep', { durationSeconds: 20 }),
+      ],
+      OPTIONS
+    );
+    assert.deepEqual(
+      ranked.map((entry) => entry.id),
+      ['Kesariya hookstep', 'Kesariya cover A', 'Kesariya cover B', 'Kesariya lyrics']
+    );
+    assert.equal(ranked[0].score, 8);
+    assert.ok(!('durationSeconds' in ranked[0]));
+  });
+});
+
+describe('videoSignals', () => {
+  it('reads duration, statistics and the shape from the embed size', () => {
+    assert.deepEqual(
+      videoSignals({
+        contentDetails: { duration: 'PT45S' },
+        statistics: { viewCount: '250000', likeCount: '12000' },
+        player: { embedWidth: '360', embedHeight: '640' },
+      }),
+      { durationSeconds: 45, vertical: true, viewCount: 250_000, likeCount: 12_000 }
+    );
+    assert.equal(videoSignals({ player: { embedWidth: 1280, embedHeight: 720 } }).vertical, false);
+  });
+
+  it('leaves out what videos.list did not return', () => {
+    // No embed size without maxHeight, so no shape
+    assert.deepEqual(videoSignals({ contentDetails: { duration: 'PT3M' }, player: {} }), { durationSeconds: 180 });
+    assert.deepEqual(videoSignals({}), {});
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads ISO 8601 durations', () => {
+    assert.equal(parseDuration('PT1H2M3S'), 3723);
+    assert.equal(parseDuration('PT59S'), 59);
+    assert.equal(parseDuration('P1D'), 0);
+  });
+});
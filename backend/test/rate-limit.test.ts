@@ -0,0 +1,79 @@
+/**
+ * Rate limiting: fixed windows per key, IP then client-token limits, and Retry-After.
+ */
+
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'node:http';
+import { describe, it } from 'node:test';
+import { checkRateLimits, clientIp, RateLimiter, retryAfterSeconds } from '../recognize/rate-limit.js';
+
+describe('RateLimiter', () => {
+  it('allows max requests per key per window, then resets', (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 0 });
+    const limiter = new RateLimiter({ windowMs: 60_000, max: 2 });
+
+    assert.deepEqual(limiter.hit('a'), { allowed: true, remaining: 1, retryAfterMs: 0 });
+    assert.deepEqual(limiter.hit('a'), { allowed: true, remaining: 0, retryAfterMs: 0 });
+    t.mock.timers.tick(15_000);
+    assert.deepEqual(limiter.hit('a'), { allowed: false, remaining: 0, retryAfterMs: 45_000 });
+    // Other keys have their own window
+    assert.equal(limiter.hit('b').allowed, true);
+
+    t.mock.timers.tick(45_000);
+    assert.deepEqual(limiter.hit('a'), { allowed: true, remaining: 1, retryAfterMs: 0 });
+  });
+
+  it('is off when max is 0', () => {
+    const limiter = new RateLimiter({ windowMs: 60_000, max: 0 });
+    for (let i = 0; i < 100; i++) assert.equal(limiter.hit('a').allowed, true);
+  });
+});
+
+describe('checkRateLimits', () => {
+  const limiters = () => ({
+    ip: new RateLimiter({ windowMs: 60_000, max: 3 }),
+    client: new RateLimiter({ windowMs: 60_000, max: 1 }),
+  });
+
+  it('limits each client token separately behind one IP', () => {
+    const shared = limiters();
+    assert.equal(checkRateLimits(shared, '1.2.3.4', 'phone-a').allowed, true);
+    assert.equal(checkRateLimits(shared, '1.2.3.4', 'phone-a').allowed, false);
+    assert.equal(checkRateLimits(shared, '1.2.3.4', 'phone-b').allowed, true);
+  });
+
+  it('limits the IP across tokens, and requests without one by IP only', () => {
+    const shared = limiters();
+    assert.equal(checkRateLimits(shared, '1.2.3.4', null).allowed, true);
+    assert.equal(checkRateLimits(shared, '1.2.3.4', null).allowed, true);
+    assert.equal(checkRateLimits(shared, '1.2.3.4', 'phone-a').allowed, true);
+    assert.equal(checkRateLimits(shared, '1.2.3.4', 'phone-b').allowed, false);
+    assert.equal(checkRateLimits(shared, '5.6.7.8', 'phone-b').allowed, true);
+  });
+});
+
+describe('retryAfterSeconds', () => {
+  it('rounds up to whole seconds, at least 1', () => {
+    assert.equal(retryAfterSeconds({ allowed: false, remaining: 0, retryAfterMs: 45_000 }), 45);
+    assert.equal(retryAfterSeconds({ allowed: false, remaining: 0, retryAfterMs: 1_001 }), 2);
+    assert.equal(retryAfterSeconds({ allowed: false, remaining: 0, retryAfterMs: 0 }), 1);
+  });
+});
+
+describe('clientIp', () => {
+  const request = (forwardedFor: string | undefined) =>
+    ({
+      headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+      socket: { remoteAddress: '10.0.0.1' },
+    }) as unknown as IncomingMessage;
+
+  it('takes the address the trusted proxy saw, ignoring client-supplied entries', () => {
+    assert.equal(clientIp(request('6.6.6.6, 1.2.3.4'), 1), '1.2.3.4');
+    assert.equal(clientIp(request('6.6.6.6, 1.2.3.4, 10.0.0.9'), 2), '1.2.3.4');
+  });
+
+  it('uses the socket address without trusted proxies or a header', () => {
+    assert.equal(clientIp(request('6.6.6.6'), 0), '10.0.0.1');
+    assert.equal(clientIp(request(undefined), 1), '10.0.0.1');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * recognize-token's client ids and per-IP issuance limit, against an in-memory Supabase.
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { countTokenIssued, ipKey, issueClientId, requestIp } from '../supabase/functions/_shared/recognize-clients.ts';
+import { denoEnv, FakeSupabase, recordingLogger } from './edge-stubs.js';
+
+const ISSUED = '6f1c2d3e-4a5b-4c6d-8e7f-901234567890';
+
+/** recognize_client_id and count_recognize_token as the migration defines them. */
+function database() {
+  const clients = new Set([ISSUED]);
+  const counts = new Map<string, number>();
+  let next = 0;
+  return new FakeSupabase({}, {
+    recognize_client_id: ({ p_client_id }) => {
+      if (typeof p_client_id === 'string' && clients.has(p_client_id)) return p_client_id;
+      const id = `00000000-0000-4000-8000-${String(++next).padStart(12, '0')}`;
+      clients.add(id);
+      return id;
+    },
+    count_recognize_token: ({ p_ip_key, p_window_start }) => {
+      const key = `${p_ip_key}|${p_window_start}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+      return counts.get(key);
+    },
+  });
+}
+
+afterEach(() => denoEnv.clear());
+
+describe('issueClientId', () => {
+  it('keeps an id it issued before', async () => {
+    assert.equal(await issueClientId(database().client(), ISSUED), ISSUED);
+  });
+
+  it('replaces ids the browser made up, or none, with a newly stored one', async () => {
+    const db = database();
+    const made = await issueClientId(db.client(), 'a1b2c3d4-0000-4000-8000-000000000000');
+    assert.notEqual(made, 'a1b2c3d4-0000-4000-8000-000000000000');
+    assert.equal(await issueClientId(db.client(), made), made);
+
+    await issueClientId(db.client(), 'not a uuid');
+    await issueClientId(db.client(), undefined);
+    assert.deepEqual(db.rpcCalls.slice(-2).map((call) => call.args.p_client_id), [null, null]);
+  });
+
+  it('throws when the id cannot be stored', async () => {
+    const db = database();
+    db.failing.add('recognize_client_id');
+    await assert.rejects(issueClientId(db.client(), ISSUED));
+  });
+});
+
+describe('countTokenIssued', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  it('allows RECOGNIZE_TOKEN_MAX_PER_IP tokens per window, then reports the wait', async () => {
+    denoEnv.set('RECOGNIZE_TOKEN_MAX_PER_IP', '2');
+    const db = database();
+    const log = recordingLogger();
+    const now = 10 * HOUR + 15 * 60 * 1000;
+
+    assert.deepEqual(await countTokenIssued(db.client(), '1.2.3.4', log, now), { allowed: true, retryAfterSeconds: 0 });
+    assert.equal((await countTokenIssued(db.client(), '1.2.3.4', log, now)).allowed, true);
+    assert.deepEqual(await countTokenIssued(db.client(), '1.2.3.4', log, now), { allowed: false, retryAfterSeconds: 45 * 60 });
+    // Other IPs, and the next window, count from zero
+    assert.equal((await countTokenIssued(db.client(), '5.6.7.8', log, now)).allowed, true);
+    assert.equal((await countTokenIssued(db.client(), '1.2.3.4', log, 11 * HOUR)).allowed, true);
+  });
+
+  it('stores a hash of the IP and the window start', async () => {
+    denoEnv.set('RECOGNIZE_TOKEN_WINDOW_SECONDS', '60');
+    const db = database();
+    await countTokenIssued(db.client(), '1.2.3.4', recordingLogger(), 90_000);
+    assert.deepEqual(db.rpcCalls[0].args, { p_ip_key: await ipKey('1.2.3.4'), p_window_start: '1970-01-01T00:01:00.000Z' });
+    assert.match(await ipKey('1.2.3.4'), /^[0-9a-f]{12}$/);
+  });
+
+  it('issues anyway when the count fails', async () => {
+    const db = database();
+    db.failing.add('count_recognize_token');
+    const log = recordingLogger();
+    assert.equal((await countTokenIssued(db.client(), '1.2.3.4', log)).allowed, true);
+    assert.equal(log.lines[0].message, 'token issuance count failed; issuing anyway');
+  });
+});
+
+describe('requestIp', () => {
+  it('takes the first X-Forwarded-For entry', () => {
+    const req = (value?: string) => new Request('http://localhost', { headers: value ? { 'x-forwarded-for': value } : {} });
+    assert.equal(requestIp(req('1.2.3.4, 10.0.0.1')), '1.2.3.4');
+    assert.equal(requestIp(req()), null);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Recognizer: provider matches go into the fingerprint cache, and a cache hit reports the
+ * song position of its own clip, whoever captured the cached one and whenever.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SAMPLE_RATE } from '../recognize/audio.js';
+import { RecognitionCache } from '../recognize/cache.js';
+import { SECONDS_PER_PASS } from '../recognize/fingerprint.js';
+import { MOCK_TRACK } from '../recognize/providers/mock.js';
+import type { ProviderResult, RecognitionProvider } from '../recognize/providers/types.js';
+import { Recognizer, type CachedRecognition } from '../recognize/recognizer.js';
+import { melody } from './synthetic-audio.js';
+
+/** Matches every clip at song position 30 s, counting its calls. */
+class FixedOffsetProvider implements RecognitionProvider {
+  readonly name = 'mock' as const;
+  calls = 0;
+
+  async recognize(): Promise<ProviderResult | null> {
+    this.calls++;
+    return { track: MOCK_TRACK, offsetSeconds: 30 };
+  }
+
+  async checkHealth(): Promise<void> {}
+}
+
+const song = melody(3, 10);
+/** A whole number of FFT passes, so both clips' peaks fall on the same passes. */
+const SHIFT_PASSES = 192;
+const shiftSamples = Math.round(SHIFT_PASSES * SECONDS_PER_PASS * SAMPLE_RATE);
+
+describe('Recognizer', () => {
+  it('aligns the cached offset with a later clip instead of using capture times', async () => {
+    const provider = new FixedOffsetProvider();
+    const cache = new RecognitionCache<CachedRecognition>({ ttlMs: 60_000, maxEntries: 10, minSimilarity: 0.35 });
+    const recognizer = new Recognizer([provider], cache);
+
+    const first = await recognizer.recognize(song.slice(0, 5 * SAMPLE_RATE), 1_000_000);
+    assert.equal(first?.cached, false);
+    assert.equal(first?.offsetSeconds, 30);
+
+    // Another client, ten minutes later, hears the same audio from SHIFT_PASSES further in
+    const later = song.slice(shiftSamples, shiftSamples + 5 * SAMPLE_RATE);
+    const second = await recognizer.recognize(later, 1_600_000);
+    assert.equal(second?.cached, true);
+    assert.equal(second?.capturedAt, 1_600_000);
+    assert.equal(second?.offsetSeconds, Math.round((30 + SHIFT_PASSES * SECONDS_PER_PASS) * 1000) / 1000);
+    assert.equal(provider.calls, 1);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * youtube-search's results cache: fresh, stale and expired reads, and which rows a write
+ * purges, against an in-memory Supabase.
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  cachedSearch,
+  searchCacheKey,
+  type SearchParams,
+  type SearchResults,
+} from '../supabase/functions/_shared/search-cache.ts';
+import { denoEnv, FakeSupabase, recordingLogger } from './edge-stubs.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const QUERY = 'Kesariya dance shorts';
+const PARAMS: SearchParams = { maxResults: 10, videoDuration: 'short' };
+const CACHED: SearchResults = { videos: [], totalResults: 1, nextPageToken: 'cached' };
+const FRESH: SearchResults = { videos: [], totalResults: 2, nextPageToken: 'fresh' };
+
+const database = () => new FakeSupabase({ youtube_search_cache: 'cache_key' });
+
+/** A cache row for query that expires (or expired) expiresIn from now. */
+function seed(db: FakeSupabase, expiresIn: number, query = QUERY) {
+  db.rows('youtube_search_cache').push({
+    cache_key: searchCacheKey(query, PARAMS),
+    response: CACHED,
+    expires_at: new Date(Date.now() + expiresIn).toISOString(),
+  });
+}
+
+/** Counts calls; answers FRESH, or throws when failing. */
+function youtube(failing = false) {
+  const fetch = async () => {
+    fetch.calls++;
+    if (failing) throw new Error('quota used up');
+    return FRESH;
+  };
+  fetch.calls = 0;
+  return fetch;
+}
+
+const search = (db: FakeSupabase | null, fetch: () => Promise<SearchResults>, query = QUERY) =>
+  cachedSearch(db ? db.client() : null, query, PARAMS, recordingLogger(), fetch);
+
+afterEach(() => denoEnv.clear());
+
+describe('cachedSearch', () => {
+  it('serves fresh entries without asking YouTube', async () => {
+    const db = database();
+    seed(db, HOUR);
+    const fetch = youtube();
+    assert.deepEqual(await search(db, fetch), { ...CACHED, cache: 'hit' });
+    // Same key for a query differing only in case and spacing
+    assert.equal((await search(db, fetch, '  kesariya   DANCE shorts')).cache, 'hit');
+    assert.equal(fetch.calls, 0);
+  });
+
+  it('stores results on a miss for YOUTUBE_SEARCH_CACHE_TTL_SECONDS', async () => {
+    denoEnv.set('YOUTUBE_SEARCH_CACHE_TTL_SECONDS', '60');
+    const db = database();
+    const before = Date.now();
+    assert.deepEqual(await search(db, youtube()), { ...FRESH, cache: 'miss' });
+
+    const [row] = db.rows('youtube_search_cache');
+    assert.equal(row.cache_key, searchCacheKey(QUERY, PARAMS));
+    assert.equal(row.query, 'kesariya dance shorts');
+    assert.deepEqual(row.response, FRESH);
+    const expiresIn = Date.parse(row.expires_at as string) - before;
+    assert.ok(expiresIn >= 60_000 && expiresIn < 61_000);
+    assert.equal((await search(db, youtube())).cache, 'hit');
+  });
+
+  it('refreshes an expired entry, serving it as stale only when the refresh fails', async () => {
+    const db = database();
+    seed(db, -HOUR);
+    assert.deepEqual(await search(db, youtube(true)), { ...CACHED, cache: 'stale' });
+
+    assert.deepEqual(await search(db, youtube()), { ...FRESH, cache: 'miss' });
+    assert.deepEqual(db.rows('youtube_search_cache').map((row) => row.response), [FRESH]);
+  });
+
+  it('no longer serves entries past the stale window', async () => {
+    denoEnv.set('YOUTUBE_SEARCH_CACHE_STALE_SECONDS', String(DAY / 1000));
+    const db = database();
+    seed(db, -DAY - HOUR);
+    await assert.rejects(search(db, youtube(true)), /quota used up/);
+    assert.equal((await search(db, youtube())).cache, 'miss');
+  });
+
+  it('purges entries past the stale window on write, keeping the rest', async () => {
+    denoEnv.set('YOUTUBE_SEARCH_CACHE_STALE_SECONDS', String(DAY / 1000));
+    const db = database();
+    seed(db, HOUR, 'fresh');
+    seed(db, -HOUR, 'stale');
+    seed(db, -DAY - HOUR, 'past the window');
+    seed(db, -2 * DAY, 'long gone');
+    const log = recordingLogger();
+
+    await cachedSearch(db.client(), QUERY, PARAMS, log, youtube());
+    assert.deepEqual(db.rows('youtube_search_cache').map((row) => row.cache_key), [
+      searchCacheKey('fresh', PARAMS),
+      searchCacheKey('stale', PARAMS),
+      searchCacheKey(QUERY, PARAMS),
+    ]);
+    assert.deepEqual(log.lines.at(-1), { level: 'info', message: 'purged stale search cache entries', fields: { count: 2 } });
+  });
+
+  it('does not write or purge on a hit or a stale read', async () => {
+    const db = database();
+    seed(db, HOUR);
+    seed(db, -HOUR, 'stale');
+    seed(db, -30 * DAY, 'long gone');
+    await search(db, youtube());
+    await search(db, youtube(true), 'stale');
+    assert.equal(db.rows('youtube_search_cache').length, 3);
+  });
+
+  it('bypasses the cache without a client or when it cannot be read', async () => {
+    const fetch = youtube();
+    assert.deepEqual(await search(null, fetch), { ...FRESH, cache: 'bypass' });
+
+    const db = database();
+    db.failing.add('youtube_search_cache');
+    assert.deepEqual(await search(db, fetch), { ...FRESH, cache: 'bypass' });
+    assert.equal(fetch.calls, 2);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Streaming recognition over WebSocket: frame size limits, a server that survives bad
+ * clients, rate limits per window and the session length.
+ */
+
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import WebSocket, { type WebSocketServer } from 'ws';
+import { setLogLevel } from '../recognize/logger.js';
+import { Preprocessor } from '../recognize/preprocess.js';
+import { RateLimiter } from '../recognize/rate-limit.js';
+import type { Recognizer } from '../recognize/recognizer.js';
+import { attachRecognizeStream, MAX_FRAME_BYTES, RATE_LIMITED_CLOSE_CODE, STREAM_PATH } from '../recognize/stream.js';
+import { WorkPool } from '../recognize/work-pool.js';
+
+setLogLevel('error');
+
+/** Sample counts of the windows the stream asked to recognize. */
+const recognized: number[] = [];
+const recognizer = {
+  recognize: async (samples: number[]) => {
+    recognized.push(samples.length);
+    return null;
+  },
+} as unknown as Recognizer;
+
+/** A stream server; connections without a clientToken are only limited by IP, which is off. */
+async function listen(maxSessionMs = 60_000): Promise<{ server: Server; wss: WebSocketServer; url: string }> {
+  const server = createServer();
+  const wss = attachRecognizeStream(server, recognizer, {
+    clientToken: { secret: undefined, required: false },
+    limiters: { ip: new RateLimiter({ windowMs: 60_000, max: 0 }), client: new RateLimiter({ windowMs: 60_000, max: 2 }) },
+    trustedProxyHops: 0,
+    isOriginAllowed: () => true,
+    preprocessor: new Preprocessor([], { highpassHz: 100, lowpassHz: 4000, gateDbfs: -60, targetDbfs: -20 }),
+    workPool: new WorkPool({ concurrency: 1, maxWaitMs: 1000, maxQueued: 10 }),
+    locales: { locale: 'en-US', metadataLocales: [] },
+    maxSessionMs,
+  });
+  server.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  return { server, wss, url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}${STREAM_PATH}` };
+}
+
+let server: Server;
+let wss: WebSocketServer;
+let url: string;
+
+before(async () => {
+  ({ server, wss, url } = await listen());
+});
+
+after(() => {
+  wss.close();
+  server.close();
+});
+
+/** Open a stream and wait for its first message. */
+async function connect(query = '', base = url): Promise<{ socket: WebSocket; message: Record<string, unknown> }> {
+  const socket = new WebSocket(`${base}${query}`);
+  const message = await new Promise<Record<string, unknown>>((resolve, reject) => {
+    socket.once('message', (data) => resolve(JSON.parse(String(data))));
+    socket.once('error', reject);
+  });
+  return { socket, message };
+}
+
+function closed(socket: WebSocket): Promise<number> {
+  return new Promise((resolve) => socket.once('close', (code) => resolve(code)));
+}
+
+describe('recognize stream', () => {
+  it('recognizes a window built from frames at the size limit', async () => {
+    const { socket } = await connect();
+    // 3 full frames are past the 2.5 s needed for the first attempt
+    for (let i = 0; i < 3; i++) socket.send(Buffer.alloc(MAX_FRAME_BYTES));
+    for (let i = 0; i < 50 && recognized.length === 0; i++) await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.deepEqual(recognized, [(3 * MAX_FRAME_BYTES) / 2]);
+    assert.equal(socket.readyState, WebSocket.OPEN);
+    socket.close();
+  });
+
+  it('closes a connection that sends an oversized frame and keeps serving others', async () => {
+    const { socket } = await connect();
+    const code = closed(socket);
+    socket.send(Buffer.alloc(262_000));
+    assert.equal(await code, 1009);
+
+    const next = await connect();
+    assert.equal(next.message.type, 'ready');
+    next.socket.close();
+  });
+
+  it('tells a rate-limited client how long to wait before closing', async () => {
+    for (let i = 0; i < 2; i++) {
+      const { socket, message } = await connect('?clientToken=phone-a');
+      assert.equal(message.type, 'ready');
+      socket.close();
+    }
+
+    const second = await connect('?clientToken=phone-a');
+    const code = closed(second.socket);
+    assert.equal(second.message.type, 'rate-limited');
+    assert.equal(second.message.retryAfterSeconds, 60);
+    assert.equal(await code, RATE_LIMITED_CLOSE_CODE);
+  });
+
+  it('counts each recognized window against the limits', async () => {
+    const { socket } = await connect('?clientToken=phone-b');
+    const messages: Record<string, unknown>[] = [];
+    socket.on('message', (data) => messages.push(JSON.parse(String(data))));
+    const code = closed(socket);
+    const before = recognized.length;
+
+    // The handshake and the first window use the client's 2 hits; the second window is refused
+    for (let i = 0; i < 6 && socket.readyState === WebSocket.OPEN; i++) {
+      socket.send(Buffer.alloc(MAX_FRAME_BYTES));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    assert.equal(await code, RATE_LIMITED_CLOSE_CODE);
+    assert.equal(recognized.length - before, 1);
+    assert.equal(messages.at(-1)?.type, 'rate-limited');
+  });
+
+  it('closes a session at its maximum length', async () => {
+    const short = await listen(200);
+    try {
+      const { socket, message } = await connect('', short.url);
+      assert.equal(message.type, 'ready');
+      const started = Date.now();
+      assert.equal(await closed(socket), 1000);
+      assert.ok(Date.now() - started >= 150);
+    } finally {
+      short.wss.close();
+      short.server.close();
+    }
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Deterministic synthetic audio for tests that must not depend on real recordings.
+ */
+
+import { SAMPLE_RATE } from '../recognize/audio.js';
+
+/** Pseudo-random numbers in [0, 1), the same sequence for the same seed. */
+export function random(seed: number): () => number {
+  let state = seed;
+  return () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648;
+}
+
+/** White noise at 16 kHz, s16 scale. */
+export function noise(seed: number, seconds: number): number[] {
+  const next = random(seed);
+  return Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, () => Math.round((next() - 0.5) * 20000));
+}
+
+/** A "song" of two-tone notes, 150 ms each, at pseudo-random pitches. */
+export function melody(seed: number, seconds: number): number[] {
+  const next = random(seed);
+  const samples: number[] = [];
+  for (let note = 0; note < seconds / 0.15; note++) {
+    const f1 = 200 + next() * 3000;
+    const f2 = 200 + next() * 3000;
+    for (let i = 0; i < 0.15 * SAMPLE_RATE; i++) {
+      const t = i / SAMPLE_RATE;
+      samples.push(Math.round(8000 * Math.sin(2 * Math.PI * f1 * t) + 6000 * Math.sin(2 * Math.PI * f2 * t)));
+    }
+  }
+  return samples;
+}
+
+/** Samples as a 16 kHz mono 16-bit PCM WAV file. */
+export function wavFile(samples: number[]): Buffer {
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => data.writeInt16LE(sample, i * 2));
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVEfmt ', 8, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
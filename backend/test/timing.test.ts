@@ -0,0 +1,79 @@
+/**
+ * Playback timing: the capture start a client reports, offset rounding, and carrying a
+ * cached offset over to another clip of the same audio.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SECONDS_PER_PASS, type Landmark } from '../recognize/fingerprint.js';
+import { normalizeOffset, realignOffset, resolveCapturedAt } from '../recognize/timing.js';
+import { random } from './synthetic-audio.js';
+
+describe('resolveCapturedAt', () => {
+  const receivedAt = 1_760_000_000_000;
+
+  it('uses a plausible reported capture start, as a number or numeric string', () => {
+    assert.equal(resolveCapturedAt(receivedAt - 5000, 5, receivedAt), receivedAt - 5000);
+    assert.equal(resolveCapturedAt(String(receivedAt - 5000.4), 5, receivedAt), receivedAt - 5000);
+    // Up to 10 minutes old, or a minute ahead of our clock
+    assert.equal(resolveCapturedAt(receivedAt - 10 * 60 * 1000, 5, receivedAt), receivedAt - 10 * 60 * 1000);
+    assert.equal(resolveCapturedAt(receivedAt + 60 * 1000, 5, receivedAt), receivedAt + 60 * 1000);
+  });
+
+  it('estimates the start from the upload time when the report is missing or implausible', () => {
+    const estimate = receivedAt - 5000;
+    for (const reported of [undefined, null, '', 'soon', NaN, Infinity, receivedAt + 61 * 1000, receivedAt - 11 * 60 * 1000]) {
+      assert.equal(resolveCapturedAt(reported, 5, receivedAt), estimate, String(reported));
+    }
+    assert.equal(resolveCapturedAt(undefined, 2.5004, receivedAt), receivedAt - 2500);
+  });
+});
+
+describe('normalizeOffset', () => {
+  it('rounds to milliseconds and clamps at 0', () => {
+    assert.equal(normalizeOffset(12.34567), 12.346);
+    assert.equal(normalizeOffset(-0.2), 0);
+    assert.equal(normalizeOffset(0), 0);
+  });
+
+  it('is null without a usable offset', () => {
+    for (const offset of [undefined, null, NaN, Infinity]) assert.equal(normalizeOffset(offset), null);
+  });
+});
+
+describe('realignOffset', () => {
+  /** Landmarks of a clip every 3 passes, with pseudo-random hashes. */
+  function clipLandmarks(seed: number, count: number): Landmark[] {
+    const next = random(seed);
+    return Array.from({ length: count }, (_, i) => ({ hash: Math.floor(next() * 2 ** 28), time: i * 3 }));
+  }
+
+  /** The part of reference from pass `from` on, timed from its own start. */
+  const laterClip = (reference: Landmark[], from: number) =>
+    reference.filter((l) => l.time >= from).map((l) => ({ hash: l.hash, time: l.time - from }));
+
+  const reference = clipLandmarks(1, 200);
+
+  it('moves the offset by where the clip starts within the cached clip', () => {
+    assert.equal(realignOffset(30, reference, laterClip(reference, 150)), normalizeOffset(30 + 150 * SECONDS_PER_PASS));
+    assert.equal(realignOffset(30, reference, reference), 30);
+  });
+
+  it('moves it back when the clip starts earlier, clamping at 0', () => {
+    const earlier = laterClip(reference, 90);
+    assert.equal(realignOffset(10, earlier, reference), normalizeOffset(10 - 90 * SECONDS_PER_PASS));
+    assert.equal(realignOffset(0.2, earlier, reference), 0);
+  });
+
+  it('ignores when the clips were captured, and stray shared hashes', () => {
+    const clip = [...laterClip(reference, 60), ...clipLandmarks(2, 50).map((l) => ({ ...l, hash: reference[7].hash }))];
+    assert.equal(realignOffset(30, reference, clip), normalizeOffset(30 + 60 * SECONDS_PER_PASS));
+  });
+
+  it('is null without an offset or when too few landmarks line up', () => {
+    assert.equal(realignOffset(undefined, reference, reference), null);
+    assert.equal(realignOffset(30, reference, clipLandmarks(3, 200)), null);
+    assert.equal(realignOffset(30, reference, laterClip(reference, 3 * 189)), null);
+    assert.equal(realignOffset(30, reference, laterClip(reference, 3 * 188)), normalizeOffset(30 + 3 * 188 * SECONDS_PER_PASS));
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * WAV reader for uploads: chunk walking, sample formats, and malformed files that must
+ * fall back to ffmpeg (null) instead of throwing.
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, it } from 'node:test';
+import { isWav, parseWav } from '../recognize/wav.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+function chunk(id: string, body: Buffer, size = body.length): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'ascii');
+  header.writeUInt32LE(size, 4);
+  return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+}
+
+function fmt(format: number, channels: number, sampleRate: number, bitsPerSample: number, extensibleFormat?: number): Buffer {
+  const body = Buffer.alloc(extensibleFormat === undefined ? 16 : 40);
+  body.writeUInt16LE(format, 0);
+  body.writeUInt16LE(channels, 2);
+  body.writeUInt32LE(sampleRate, 4);
+  body.writeUInt32LE((sampleRate * channels * bitsPerSample) / 8, 8);
+  body.writeUInt16LE((channels * bitsPerSample) / 8, 12);
+  body.writeUInt16LE(bitsPerSample, 14);
+  if (extensibleFormat !== undefined) {
+    body.writeUInt16LE(22, 16);
+    body.writeUInt16LE(extensibleFormat, 24);
+  }
+  return chunk('fmt ', body);
+}
+
+function riff(...chunks: Buffer[]): Buffer {
+  return chunk('RIFF', Buffer.concat([Buffer.from('WAVE', 'ascii'), ...chunks]));
+}
+
+describe('parseWav', () => {
+  it('reads 16-bit mono PCM (tone.wav)', () => {
+    const wav = parseWav(fs.readFileSync(path.join(FIXTURES, 'tone.wav')));
+    assert.ok(wav);
+    assert.equal(wav.sampleRate, 16000);
+    assert.equal(wav.samples.length, 32000);
+    assert.deepEqual([...wav.samples.slice(0, 2)], [0, 0x02c0 / 32768]);
+  });
+
+  it('walks past chunks before the data (short.wav has a LIST chunk)', () => {
+    const wav = parseWav(fs.readFileSync(path.join(FIXTURES, 'short.wav')));
+    assert.ok(wav);
+    assert.equal(wav.sampleRate, 8000);
+    assert.equal(wav.samples.length, 160);
+  });
+
+  it('skips an odd-sized chunk and its padding byte', () => {
+    const data = Buffer.alloc(4);
+    data.writeInt16LE(16384, 0);
+    data.writeInt16LE(-16384, 2);
+    const wav = parseWav(riff(chunk('junk', Buffer.from('abc')), fmt(1, 1, 16000, 16), chunk('data', data)));
+    assert.deepEqual([...(wav?.samples ?? [])], [0.5, -0.5]);
+  });
+
+  it('mixes stereo down to mono', () => {
+    const data = Buffer.alloc(4);
+    data.writeInt16LE(16384, 0);
+    data.writeInt16LE(0, 2);
+    assert.deepEqual([...parseWav(riff(fmt(1, 2, 44100, 16), chunk('data', data)))!.samples], [0.25]);
+  });
+
+  it('reads 8, 24 and 32-bit PCM, 32-bit float and WAVE_FORMAT_EXTENSIBLE', () => {
+    const u8 = Buffer.from([192]);
+    assert.deepEqual([...parseWav(riff(fmt(1, 1, 8000, 8), chunk('data', u8)))!.samples], [0.5]);
+
+    const s24 = Buffer.alloc(3);
+    s24.writeIntLE(-4194304, 0, 3);
+    assert.deepEqual([...parseWav(riff(fmt(1, 1, 48000, 24), chunk('data', s24)))!.samples], [-0.5]);
+
+    const s32 = Buffer.alloc(4);
+    s32.writeInt32LE(1073741824, 0);
+    assert.deepEqual([...parseWav(riff(fmt(1, 1, 48000, 32), chunk('data', s32)))!.samples], [0.5]);
+
+    const f32 = Buffer.alloc(4);
+    f32.writeFloatLE(0.25, 0);
+    assert.deepEqual([...parseWav(riff(fmt(3, 1, 48000, 32), chunk('data', f32)))!.samples], [0.25]);
+    assert.deepEqual([...parseWav(riff(fmt(0xfffe, 1, 48000, 32, 3), chunk('data', f32)))!.samples], [0.25]);
+  });
+
+  it('returns null for formats it does not decode, so ffmpeg handles them', () => {
+    const data = chunk('data', Buffer.alloc(8));
+    assert.equal(parseWav(riff(fmt(2, 1, 16000, 4), data)), null); // ADPCM
+    assert.equal(parseWav(riff(fmt(1, 1, 16000, 12), data)), null);
+    assert.equal(parseWav(riff(fmt(3, 1, 16000, 64), data)), null);
+    assert.equal(parseWav(riff(fmt(0xfffe, 1, 16000, 16, 2), data)), null);
+  });
+
+  it('takes the rest of the file when the data size is unset or too large', () => {
+    const samples = Buffer.alloc(6);
+    for (const size of [0, 0xffffffff, 1000]) {
+      const wav = parseWav(riff(fmt(1, 1, 16000, 16), chunk('data', samples, size)));
+      assert.equal(wav?.samples.length, 3, `size ${size}`);
+    }
+  });
+
+  it('returns null for truncated or malformed headers instead of throwing', () => {
+    const tone = fs.readFileSync(path.join(FIXTURES, 'tone.wav'));
+    for (const length of [0, 4, 11, 12, 20, 36, 40]) {
+      assert.equal(parseWav(tone.subarray(0, length)), null, `first ${length} bytes`);
+    }
+    // A chunk claiming to run past the end of the file
+    assert.equal(parseWav(riff(chunk('LIST', Buffer.alloc(4), 0xfffffff0), fmt(1, 1, 16000, 16))), null);
+    // No fmt chunk, or zero channels / sample rate
+    assert.equal(parseWav(riff(chunk('data', Buffer.alloc(4)))), null);
+    assert.equal(parseWav(riff(fmt(1, 0, 16000, 16), chunk('data', Buffer.alloc(4)))), null);
+    assert.equal(parseWav(riff(fmt(1, 1, 0, 16), chunk('data', Buffer.alloc(4)))), null);
+    // Not a WAV at all
+    assert.equal(parseWav(fs.readFileSync(path.join(FIXTURES, 'notes.txt'))), null);
+    assert.equal(isWav(fs.readFileSync(path.join(FIXTURES, 'tone.m4a'))), false);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Work pool: concurrency cap, first-in-first-out hand-over, and shedding on timeout or a full queue.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { WorkPool } from '../recognize/work-pool.js';
+
+describe('WorkPool', () => {
+  it('runs up to the concurrency limit and hands slots to waiters in order', async () => {
+    const pool = new WorkPool({ concurrency: 2, maxWaitMs: 1000, maxQueued: 10 });
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+    assert.ok(first && second);
+    assert.deepEqual(pool.stats, { running: 2, queued: 0 });
+
+    const order: number[] = [];
+    const third = pool.acquire().then((release) => {
+      order.push(3);
+      return release;
+    });
+    const fourth = pool.acquire().then((release) => {
+      order.push(4);
+      return release;
+    });
+    assert.deepEqual(pool.stats, { running: 2, queued: 2 });
+
+    first();
+    first(); // Releasing twice must not free a second slot
+    (await third)!();
+    second();
+    (await fourth)!();
+    assert.deepEqual(order, [3, 4]);
+    assert.deepEqual(pool.stats, { running: 0, queued: 0 });
+  });
+
+  it('sheds work that waits longer than maxWaitMs', async () => {
+    const pool = new WorkPool({ concurrency: 1, maxWaitMs: 20, maxQueued: 10 });
+    const held = await pool.acquire();
+    const started = Date.now();
+    assert.equal(await pool.acquire(), null);
+    assert.ok(Date.now() - started >= 15);
+    assert.deepEqual(pool.stats, { running: 1, queued: 0 });
+
+    // The timed-out waiter must not receive the slot later
+    held!();
+    assert.deepEqual(pool.stats, { running: 0, queued: 0 });
+  });
+
+  it('sheds at once when the queue is full', async () => {
+    const pool = new WorkPool({ concurrency: 1, maxWaitMs: 1000, maxQueued: 1 });
+    const held = await pool.acquire();
+    const waiting = pool.acquire();
+    assert.equal(await pool.acquire(), null);
+    held!();
+    (await waiting)!();
+    assert.deepEqual(pool.stats, { running: 0, queued: 0 });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * YouTube API key rotation and quota accounting, against an in-memory Supabase, and the
+ * 429 youtube-search sends once every key is out of quota.
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  configuredApiKeys,
+  isQuotaError,
+  QuotaExceededError,
+  QuotaExhaustedError,
+  quotaDay,
+  quotaExhaustedResponse,
+  secondsUntilQuotaReset,
+  withApiKey,
+} from '../supabase/functions/_shared/youtube-keys.ts';
+import { denoEnv, FakeSupabase, recordingLogger } from './edge-stubs.js';
+
+const COST = 101;
+
+/** spend_youtube_quota as the migration defines it. */
+function database() {
+  const db: FakeSupabase = new FakeSupabase({}, {
+    spend_youtube_quota: ({ p_key_id, p_quota_day, p_units, p_exhausted }) => {
+      const rows = db.rows('youtube_api_quota');
+      let row = rows.find((other) => other.key_id === p_key_id && other.quota_day === p_quota_day);
+      if (!row) {
+        row = { key_id: p_key_id, quota_day: p_quota_day, units_used: 0, exhausted_at: null };
+        rows.push(row);
+      }
+      row.units_used = (row.units_used as number) + (p_units as number);
+      if (p_exhausted) row.exhausted_at ??= new Date().toISOString();
+      return null;
+    },
+  });
+  return db;
+}
+
+/** Today's row for a key, as the function reads it. */
+const usage = (db: FakeSupabase, keyId: string) =>
+  db.rows('youtube_api_quota').find((row) => row.key_id === keyId && row.quota_day === quotaDay());
+
+async function twoKeys() {
+  denoEnv.set('YOUTUBE_API_KEYS', 'key-a, key-b');
+  return configuredApiKeys();
+}
+
+afterEach(() => denoEnv.clear());
+
+describe('isQuotaError', () => {
+  it('is true for the quota reasons only', () => {
+    const body = (reason: string) => ({ error: { message: 'no', errors: [{ reason }] } });
+    assert.equal(isQuotaError(body('quotaExceeded')), true);
+    assert.equal(isQuotaError(body('dailyLimitExceeded')), true);
+    assert.equal(isQuotaError(body('keyInvalid')), false);
+    assert.equal(isQuotaError({}), false);
+    assert.equal(isQuotaError(null), false);
+  });
+});
+
+describe('configuredApiKeys', () => {
+  it('reads YOUTUBE_API_KEYS then YOUTUBE_API_KEY, without duplicates, and never exposes a key as its id', async () => {
+    denoEnv.set('YOUTUBE_API_KEYS', 'key-a,,key-b');
+    denoEnv.set('YOUTUBE_API_KEY', 'key-a');
+    const keys = await configuredApiKeys();
+    assert.deepEqual(keys.map((key) => key.key), ['key-a', 'key-b']);
+    for (const key of keys) assert.match(key.id, /^[0-9a-f]{12}$/);
+  });
+});
+
+describe('withApiKey', () => {
+  it('uses the key with the most quota left and records the cost against it', async () => {
+    const [a, b] = await twoKeys();
+    const db = database();
+    db.rows('youtube_api_quota').push({ key_id: a.id, quota_day: quotaDay(), units_used: 5000, exhausted_at: null });
+
+    const used = await withApiKey(db.client(), [a, b], COST, recordingLogger(), async (key) => key);
+    assert.equal(used, 'key-b');
+    assert.equal(usage(db, b.id)?.units_used, COST);
+    assert.equal(usage(db, a.id)?.units_used, 5000);
+  });
+
+  it('moves on when YouTube reports a key out of quota, and skips it for the rest of the day', async () => {
+    const [a, b] = await twoKeys();
+    const db = database();
+    const log = recordingLogger();
+    const tried: string[] = [];
+    const call = async (key: string) => {
+      tried.push(key);
+      if (key === 'key-a') throw new QuotaExceededError('quota');
+      return key;
+    };
+
+    assert.equal(await withApiKey(db.client(), [a, b], COST, log, call), 'key-b');
+    assert.ok(usage(db, a.id)?.exhausted_at);
+    assert.equal(usage(db, a.id)?.units_used, 0);
+    assert.equal(log.lines[0].message, 'YouTube API key out of quota; trying the next one');
+
+    await withApiKey(db.client(), [a, b], COST, log, call);
+    assert.deepEqual(tried, ['key-a', 'key-b', 'key-b']);
+  });
+
+  it('skips keys that cannot afford the call', async () => {
+    denoEnv.set('YOUTUBE_DAILY_QUOTA', String(COST + 50));
+    const [a, b] = await twoKeys();
+    const db = database();
+    const tried: string[] = [];
+    const call = async (key: string) => void tried.push(key);
+
+    await withApiKey(db.client(), [a, b], COST, recordingLogger(), call);
+    await withApiKey(db.client(), [a, b], COST, recordingLogger(), call);
+    assert.deepEqual(tried, ['key-a', 'key-b']);
+    await assert.rejects(withApiKey(db.client(), [a, b], COST, recordingLogger(), call), QuotaExhaustedError);
+  });
+
+  it('records the cost of a call that failed for another reason, and rethrows', async () => {
+    const [a, b] = await twoKeys();
+    const db = database();
+    const call = async () => {
+      throw new Error('Invalid videoDuration');
+    };
+
+    await assert.rejects(withApiKey(db.client(), [a, b], COST, recordingLogger(), call), /Invalid videoDuration/);
+    assert.equal(usage(db, a.id)?.units_used, COST);
+    assert.equal(usage(db, a.id)?.exhausted_at, null);
+    assert.equal(usage(db, b.id), undefined);
+  });
+
+  it('throws QuotaExhaustedError, retrying after the reset, once every key is out', async () => {
+    const [a, b] = await twoKeys();
+    const db = database();
+    const call = async (): Promise<string> => {
+      throw new QuotaExceededError('quota');
+    };
+
+    const err = await withApiKey(db.client(), [a, b], COST, recordingLogger(), call).catch((caught) => caught);
+    assert.ok(err instanceof QuotaExhaustedError);
+    assert.ok(Math.abs(err.retryAfterSeconds - secondsUntilQuotaReset()) <= 1);
+  });
+
+  it('tries keys in configured order when the quota table cannot be read', async () => {
+    const [a, b] = await twoKeys();
+    const db = database();
+    db.failing.add('youtube_api_quota');
+    const log = recordingLogger();
+
+    assert.equal(await withApiKey(db.client(), [a, b], COST, log, async (key) => key), 'key-a');
+    assert.equal(log.lines[0].message, 'quota read failed; trying keys in order');
+  });
+});
+
+describe('quotaExhaustedResponse', () => {
+  it('answers 429 with QUOTA_EXHAUSTED and Retry-After', async () => {
+    const response = quotaExhaustedResponse(new QuotaExhaustedError(3600), { 'Content-Type': 'application/json' });
+    assert.equal(response.status, 429);
+    assert.equal(response.headers.get('Retry-After'), '3600');
+    assert.equal(response.headers.get('Content-Type'), 'application/json');
+    assert.deepEqual(await response.json(), {
+      success: false,
+      error: 'YouTube search quota is used up for today',
+      code: 'QUOTA_EXHAUSTED',
+      retryAfterSeconds: 3600,
+    });
+  });
+});
+
+describe('quota day', () => {
+  it('runs midnight to midnight Pacific time', () => {
+    // 01:00 PDT
+    const now = new Date('2026-10-19T08:00:00Z');
+    assert.equal(quotaDay(now), '2026-10-19');
+    assert.equal(secondsUntilQuotaReset(now), 23 * 60 * 60);
+    assert.equal(quotaDay(new Date('2026-10-19T06:59:59Z')), '2026-10-18');
+  });
+});
@@ -12,6 +12,7 @@ interface UseAudioCaptureReturn {
   startListening: () => void;
   stopListening: () => void;
   audioBlob: Blob | null;
+  capturedAt: number | null; // Epoch ms when the recording of audioBlob started
 }
 
 export function useAudioCapture({ 
@@ -22,10 +23,12 @@ export function useAudioCapture({
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [capturedAt, setCapturedAt] = useState<number | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
+  const recordingStartedAtRef = useRef<number | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   const cleanup = useCallback(() => {
@@ -72,6 +75,7 @@ export function useAudioCapture({
       
       mediaRecorder.onstop = () => {
         const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+        setCapturedAt(recordingStartedAtRef.current);
         setAudioBlob(blob);
         setIsProcessing(false);
         setIsListening(false);
@@ -83,6 +87,7 @@ export function useAudioCapture({
       };
       
       mediaRecorder.start();
+      recordingStartedAtRef.current = Date.now();
       setIsListening(true);
       
       // Auto-stop after duration
@@ -112,5 +117,6 @@ export function useAudioCapture({
     startListening,
     stopListening,
     audioBlob,
+    capturedAt,
   };
 }
@@ -1,39 +1,53 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { getClientToken } from '@/lib/clientToken';
+import { getRecognizeToken, invalidateRecognizeToken } from '@/lib/recognizeToken';
+import { newRequestId } from '@/lib/requestId';
+import { localeParams } from '@/lib/trackLocales';
+import {
+  formatIssues,
+  parseRecognizeResponse,
+  REQUEST_ID_HEADER,
+  type AudioDiagnostics,
+  type RecognizedTrack,
+} from '@contract';
 
 /** Node recognize server URL (e.g. http://localhost:3456 or Cloud Run URL). */
 const RECOGNIZE_API_URL = import.meta.env.VITE_RECOGNIZE_API_URL as string | undefined;
 
-export interface ShazamTrack {
-  key: string;
-  title: string;
-  subtitle: string;
-  type?: string;
-  images?: {
-    coverart?: string;
-    background?: string;
-  };
-  hub?: {
-    actions?: Array<{
-      name: string;
-      type: string;
-      uri?: string;
-    }>;
-  };
-  url?: string;
+const DEFAULT_RETRY_AFTER_SECONDS = 30; // If a 429 comes without Retry-After
+
+export function rateLimitedMessage(seconds: number): string {
+  return `Lots of song requests right now. Trying again in ${seconds}s.`;
 }
 
+/** Track as the recognize server returns it (shared API contract). */
+export type ShazamTrack = RecognizedTrack;
+
 export interface ShazamMatch {
   track: ShazamTrack;
-  location?: { accuracy?: number };
+}
+
+export type { AudioDiagnostics };
+
+/** What the user can do about bad audio, or null when the audio looked fine. */
+export function diagnosticsHint(diagnostics?: AudioDiagnostics | null): string | null {
+  const warnings = diagnostics?.warnings ?? [];
+  if (warnings.includes('too-quiet')) return "Can't hear the music well. Move closer to the speaker.";
+  if (warnings.includes('clipping')) return 'Too loud for the mic. Step back from the speaker a little.';
+  if (warnings.includes('noisy')) return 'Too much crowd noise. Move closer to the speaker.';
+  return null;
 }
 
 export interface ShazamResponse {
   matches: ShazamMatch[];
-  location?: { accuracy?: number };
+  offsetSeconds: number | null; // Song position (s) at the start of the clip, if known
+  capturedAt: number; // Epoch ms when the clip started recording
+  diagnostics: AudioDiagnostics;
+  requestId: string; // X-Request-Id of this recognition; pass it on to the video search
 }
 
 interface UseShazamReturn {
-  identifySong: (audioBlob: Blob) => Promise<ShazamResponse | null>;
+  identifySong: (audioBlob: Blob, capturedAt?: number | null) => Promise<ShazamResponse | null>;
   isLoading: boolean;
   error: string | null;
   result: ShazamTrack | null;
@@ -42,55 +56,95 @@ interface UseShazamReturn {
 /**
  * Hook for song recognition. Calls the Node recognize server directly.
  * Set VITE_RECOGNIZE_API_URL to the server URL (e.g. http://localhost:3456 or https://xxx.onrender.com).
- * Sends the raw mic blob as multipart "audio".
+ * Sends the raw mic blob as multipart "audio", plus "capturedAt" (epoch ms) when known
+ * so the server can report where in the song the clip sits, and the metadata locales
+ * (see trackLocales) so the track comes back with its title variants.
+ * Sends a signed token from the recognize-token Edge Function when one is available,
+ * and a fresh X-Request-Id per recognition so server logs can be traced.
+ * When the server rate limits (429) or is too busy (503), further calls return null
+ * without a request until its Retry-After has passed.
  */
 export function useShazam(): UseShazamReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ShazamTrack | null>(null);
+  const blockedUntilRef = useRef(0);
 
-  const identifySong = useCallback(async (audioBlob: Blob): Promise<ShazamResponse | null> => {
+  const identifySong = useCallback(async (audioBlob: Blob, capturedAt?: number | null): Promise<ShazamResponse | null> => {
     if (!RECOGNIZE_API_URL?.trim()) {
       setError('VITE_RECOGNIZE_API_URL is not set (e.g. your Cloud Run or local server URL).');
       return null;
     }
 
+    const blockedMs = blockedUntilRef.current - Date.now();
+    if (blockedMs > 0) {
+      setError(rateLimitedMessage(Math.ceil(blockedMs / 1000)));
+      return null;
+    }
+
     setIsLoading(true);
     setError(null);
     setResult(null);
 
+    const requestId = newRequestId();
     try {
       const form = new FormData();
       form.append('audio', audioBlob, 'recording.webm');
+      if (capturedAt) form.append('capturedAt', String(capturedAt));
+      for (const [name, value] of Object.entries(localeParams())) form.append(name, value);
       const base = RECOGNIZE_API_URL.replace(/\/$/, '');
-      const res = await fetch(`${base}/api/recognize`, {
-        method: 'POST',
-        body: form,
-      });
-      const data = await res.json().catch(() => ({ success: false, error: 'Invalid response' }));
-
-      if (!res.ok) {
-        throw new Error(data?.error || `Server error ${res.status}`);
+      const send = async () => {
+        const token = await getRecognizeToken();
+        return fetch(`${base}/api/recognize`, {
+          method: 'POST',
+          headers: {
+            'X-Client-Token': getClientToken(),
+            [REQUEST_ID_HEADER]: requestId,
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: form,
+        });
+      };
+      let res = await send();
+      if (res.status === 401) {
+        // Token expired or secret rotated: fetch a fresh one and retry once
+        invalidateRecognizeToken();
+        res = await send();
       }
-      if (!data?.success) {
-        throw new Error(data?.error || 'Could not identify the song.');
+
+      // 429: rate limited; 503 with Retry-After: server queue full. Both mean "back off".
+      if (res.status === 429 || (res.status === 503 && res.headers.has('Retry-After'))) {
+        const retryAfter = Number(res.headers.get('Retry-After')) || DEFAULT_RETRY_AFTER_SECONDS;
+        blockedUntilRef.current = Date.now() + retryAfter * 1000;
+        setError(rateLimitedMessage(retryAfter));
+        return null;
       }
 
-      const responseData = data.data ?? {};
-      let matches = responseData.matches;
-      if (!matches && responseData.track) {
-        matches = [{ track: responseData.track }];
+      const parsed = parseRecognizeResponse(await res.json().catch(() => null));
+      if (parsed.success === false) {
+        console.error('Recognize response does not match the API contract:', formatIssues(parsed.issues));
+        throw new Error(res.ok ? 'Invalid response from the recognize server' : `Server error ${res.status}`);
       }
-      if (matches && matches.length > 0) {
-        const track = matches[0].track as ShazamTrack;
-        setResult(track);
-        return { matches, location: responseData.location };
+      const data = parsed.data;
+
+      if (data.success === false) {
+        if (!res.ok) throw new Error(data.error || `Server error ${res.status}`);
+        throw new Error(diagnosticsHint(data.diagnostics) || data.error || 'Could not identify the song.');
       }
-      throw new Error('No matches found - song not recognized');
+
+      const { matches, track } = data.data;
+      setResult(track);
+      return {
+        matches: matches.length > 0 ? matches : [{ track }],
+        offsetSeconds: data.data.offsetSeconds,
+        capturedAt: data.data.capturedAt,
+        diagnostics: data.diagnostics,
+        requestId,
+      };
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to identify song';
       setError(message);
-      console.error('Recognize error:', err);
+      console.error(`Recognize error (request ${requestId}):`, err);
       return null;
     } finally {
       setIsLoading(false);
@@ -6,7 +6,7 @@ interface UseShazamRecognitionOptions {
   autoStart?: boolean;
   captureDuration?: number; // Duration to capture audio in ms (2.5s is enough for Shazam)
   intervalMs?: number; // How often to check for new songs (default: 3000ms)
-  onSongIdentified?: (track: ShazamTrack) => void;
+  onSongIdentified?: (track: ShazamTrack, requestId: string) => void;
   enabled?: boolean; // Flag to enable/disable recognition
 }
 
@@ -53,6 +53,7 @@ export function useShazamRecognition({
     startListening: startCapture,
     stopListening: stopCapture,
     audioBlob,
+    capturedAt,
   } = useAudioCapture({
     duration: captureDuration,
     autoStart: false,
@@ -81,14 +82,14 @@ export function useShazamRecognition({
       lastApiCallTimeRef.current = now;
       setIsProcessing(true);
 
-      identifySong(audioBlob)
+      identifySong(audioBlob, capturedAt)
         .then((response) => {
           if (response?.matches?.[0]?.track) {
             const track = response.matches[0].track;
             if (track.key !== lastTrackKeyRef.current) {
               lastTrackKeyRef.current = track.key;
               setCurrentTrack(track);
-              onSongIdentified?.(track);
+              onSongIdentified?.(track, response.requestId);
             }
           }
         })
@@ -99,7 +100,7 @@ export function useShazamRecognition({
           setIsProcessing(false);
         });
     }
-  }, [audioBlob, identifySong, isProcessing, isEnabled, onSongIdentified, intervalMs]);
+  }, [audioBlob, capturedAt, identifySong, isProcessing, isEnabled, onSongIdentified, intervalMs]);
 
   const startListening = useCallback(() => {
     // Clear any existing interval
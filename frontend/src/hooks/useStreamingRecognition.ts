@@ -0,0 +1,259 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { diagnosticsHint, rateLimitedMessage, type AudioDiagnostics, type ShazamTrack } from './useShazam';
+import { getClientToken } from '@/lib/clientToken';
+import { getRecognizeToken, invalidateRecognizeToken } from '@/lib/recognizeToken';
+import { newRequestId } from '@/lib/requestId';
+import { localeParams } from '@/lib/trackLocales';
+
+/** Node recognize server URL (e.g. http://localhost:3456 or Cloud Run URL). */
+const RECOGNIZE_API_URL = import.meta.env.VITE_RECOGNIZE_API_URL as string | undefined;
+
+const STREAM_SAMPLE_RATE = 16000; // What the recognize server expects
+const PROCESSOR_BUFFER_SIZE = 4096; // ~85ms at 48kHz per frame sent
+const RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60000; // Rejected connections back off up to this
+const RATE_LIMITED_CLOSE_CODE = 4429; // Server closes with this after a `rate-limited` message
+
+interface UseStreamingRecognitionOptions {
+  autoStart?: boolean;
+  onSongIdentified?: (track: ShazamTrack, requestId: string) => void; // requestId identifies the stream
+  enabled?: boolean; // Flag to enable/disable recognition
+}
+
+interface UseStreamingRecognitionReturn {
+  isListening: boolean;
+  isProcessing: boolean;
+  error: string | null;
+  currentTrack: ShazamTrack | null;
+  startListening: () => void;
+  stopListening: () => void;
+  setEnabled: (enabled: boolean) => void;
+}
+
+type StreamMessage =
+  | { type: 'ready'; sampleRate: number }
+  | { type: 'track-changed'; track: ShazamTrack; offsetSeconds: number | null; capturedAt: number }
+  | { type: 'diagnostics'; diagnostics: AudioDiagnostics }
+  | { type: 'error'; error: string }
+  | { type: 'rate-limited'; error: string; retryAfterSeconds: number };
+
+/** Browsers can't set headers on a WebSocket, so the tokens, request id and locales go in the query string. */
+function streamUrl(base: string, token: string | null, requestId: string): string {
+  const params = new URLSearchParams({ clientToken: getClientToken(), requestId, ...localeParams() });
+  if (token) params.set('token', token);
+  return `${base.replace(/\/$/, '').replace(/^http/, 'ws')}/api/recognize/stream?${params}`;
+}
+
+/** Downsample mic audio (Float32, any rate) to 16 kHz signed 16-bit PCM by averaging. */
+function toPcm16(input: Float32Array, inputRate: number): Int16Array {
+  const ratio = inputRate / STREAM_SAMPLE_RATE;
+  const output = new Int16Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(input.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += input[j];
+    const sample = Math.max(-1, Math.min(1, sum / Math.max(1, end - start)));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return output;
+}
+
+/**
+ * Streams microphone audio to the recognize server over WebSocket.
+ *
+ * Drop-in replacement for useShazamRecognition: one mic stream for the whole session
+ * instead of a new MediaRecorder and upload per clip. The server recognizes a sliding
+ * window and pushes `track-changed` whenever the song changes.
+ */
+export function useStreamingRecognition({
+  autoStart = false,
+  onSongIdentified,
+  enabled = true,
+}: UseStreamingRecognitionOptions = {}): UseStreamingRecognitionReturn {
+  const [isListening, setIsListening] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currentTrack, setCurrentTrack] = useState<ShazamTrack | null>(null);
+  const [isEnabled, setIsEnabled] = useState(enabled);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reconnectDelayRef = useRef(RECONNECT_DELAY_MS);
+  const retryAfterMsRef = useRef<number | null>(null); // Set by a `rate-limited` message
+  const shouldListenRef = useRef(false);
+  const onSongIdentifiedRef = useRef(onSongIdentified);
+
+  // Keep the latest callback without reconnecting the socket
+  useEffect(() => {
+    onSongIdentifiedRef.current = onSongIdentified;
+  }, [onSongIdentified]);
+
+  const cleanup = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+    if (processorRef.current) {
+      processorRef.current.onaudioprocess = null;
+      processorRef.current.disconnect();
+      processorRef.current = null;
+    }
+    if (audioContextRef.current) {
+      audioContextRef.current.close().catch(() => {});
+      audioContextRef.current = null;
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    if (socketRef.current) {
+      socketRef.current.onclose = null;
+      socketRef.current.close();
+      socketRef.current = null;
+    }
+  }, []);
+
+  const connect = useCallback(async () => {
+    const token = await getRecognizeToken();
+    if (!shouldListenRef.current) return;
+    // One id per connection: the server logs every window of this stream under it
+    const requestId = newRequestId();
+    const socket = new WebSocket(streamUrl(RECOGNIZE_API_URL!, token, requestId));
+    socket.binaryType = 'arraybuffer';
+    socketRef.current = socket;
+    setIsConnecting(true);
+
+    socket.onmessage = (event) => {
+      let message: StreamMessage;
+      try {
+        message = JSON.parse(event.data as string);
+      } catch {
+        return;
+      }
+      if (message.type === 'ready') {
+        reconnectDelayRef.current = RECONNECT_DELAY_MS;
+        setIsConnecting(false);
+        setError(null);
+      } else if (message.type === 'track-changed') {
+        setError(null);
+        setCurrentTrack(message.track);
+        onSongIdentifiedRef.current?.(message.track, requestId);
+      } else if (message.type === 'diagnostics') {
+        setError(diagnosticsHint(message.diagnostics));
+      } else if (message.type === 'error') {
+        setError(message.error);
+      } else if (message.type === 'rate-limited') {
+        retryAfterMsRef.current = message.retryAfterSeconds * 1000;
+      }
+    };
+
+    socket.onclose = (event) => {
+      socketRef.current = null;
+      if (!shouldListenRef.current) return;
+
+      // Rate limited: the server said how long to wait, and the token is fine
+      const retryAfterMs = retryAfterMsRef.current;
+      retryAfterMsRef.current = null;
+      if (event.code === RATE_LIMITED_CLOSE_CODE) {
+        const delay = retryAfterMs ?? MAX_RECONNECT_DELAY_MS;
+        setError(rateLimitedMessage(Math.round(delay / 1000)));
+        setIsConnecting(true);
+        reconnectTimeoutRef.current = setTimeout(connect, delay);
+        return;
+      }
+
+      // Reconnect on drops (deploys, network blips) while the user is still listening.
+      // Browsers hide why a handshake failed (401, 403), so back off on each failed attempt.
+      const delay = reconnectDelayRef.current;
+      if (delay > RECONNECT_DELAY_MS) {
+        // The failure may be a rejected token; a fresh one costs one Edge Function call
+        invalidateRecognizeToken();
+        setError(`Recognition server is busy or unreachable. Retrying in ${Math.round(delay / 1000)}s.`);
+      }
+      reconnectDelayRef.current = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS);
+      setIsConnecting(true);
+      reconnectTimeoutRef.current = setTimeout(connect, delay);
+    };
+  }, []);
+
+  const startListening = useCallback(async () => {
+    if (!RECOGNIZE_API_URL?.trim()) {
+      setError('VITE_RECOGNIZE_API_URL is not set (e.g. your Cloud Run or local server URL).');
+      return;
+    }
+
+    cleanup();
+    shouldListenRef.current = true;
+    reconnectDelayRef.current = RECONNECT_DELAY_MS;
+    setError(null);
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+
+      const audioContext = new AudioContext();
+      audioContextRef.current = audioContext;
+      const source = audioContext.createMediaStreamSource(stream);
+      const processor = audioContext.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+      processorRef.current = processor;
+
+      processor.onaudioprocess = (event) => {
+        const socket = socketRef.current;
+        if (socket?.readyState !== WebSocket.OPEN) return;
+        const pcm = toPcm16(event.inputBuffer.getChannelData(0), audioContext.sampleRate);
+        socket.send(pcm.buffer);
+      };
+
+      // The processor must reach the destination to run; it outputs silence
+      source.connect(processor);
+      processor.connect(audioContext.destination);
+
+      connect();
+      setIsListening(true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to access microphone';
+      setError(message);
+      shouldListenRef.current = false;
+      cleanup();
+      setIsListening(false);
+    }
+  }, [cleanup, connect]);
+
+  const stopListening = useCallback(() => {
+    shouldListenRef.current = false;
+    cleanup();
+    setIsListening(false);
+    setIsConnecting(false);
+  }, [cleanup]);
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    setIsEnabled(enabled);
+    if (!enabled) {
+      stopListening();
+    }
+  }, [stopListening]);
+
+  // Auto-start if enabled
+  useEffect(() => {
+    if (autoStart && isEnabled) {
+      startListening();
+    }
+    return () => {
+      stopListening();
+    };
+  }, [autoStart, isEnabled, startListening, stopListening]);
+
+  return {
+    isListening,
+    isProcessing: isConnecting,
+    error,
+    currentTrack,
+    startListening,
+    stopListening,
+    setEnabled,
+  };
+}
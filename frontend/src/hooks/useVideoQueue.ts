@@ -1,16 +1,148 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import type { YouTubeVideo } from '@/types/youtube';
+import { formatIssues, parseYouTubeSearchResponse, REQUEST_ID_HEADER, type YouTubeSearchRequest } from '@contract';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { newRequestId } from '@/lib/requestId';
+import {
+  buildTrackSearches,
+  mergeSearchResults,
+  trackSongTitle,
+  type SearchTrack,
+  type VideoSearch,
+} from '@/lib/trackSearches';
 
 // API keys are now stored securely on the backend (Supabase Edge Function)
 // No API keys in frontend code!
 
+/** youtube-search answered QUOTA_EXHAUSTED: every API key is used up until the daily reset. */
+class QuotaExhaustedError extends Error {
+  constructor(retryAfterSeconds: number | undefined) {
+    const hours = retryAfterSeconds ? Math.max(1, Math.round(retryAfterSeconds / 3600)) : null;
+    super(`Daily video search limit reached. New videos ${hours ? `in about ${hours} h` : 'tomorrow'}.`);
+  }
+}
+
+/** Fetch the next page once the viewer is this many reels from the end of the feed. */
+const PREFETCH_REMAINING = 3;
+/** Pages in a row fetched at once when each adds only videos already in the feed. */
+const MAX_EMPTY_PAGES = 3;
+
+interface SearchPage {
+  videos: YouTubeVideo[];
+  nextPageToken: string | null;
+}
+
+/** Merged results of at least this many videos are enough; further searches wait for a later page. */
+const ENOUGH_VIDEOS = 5;
+
+/** A search for a later page: the next page of one that ran, or one that hasn't run yet. */
+type PendingSearch = VideoSearch & { pageToken?: string };
+
+/** One page of dance videos for a search from the youtube-search Edge Function. */
+async function searchVideos({ query, songTitle }: VideoSearch, requestId: string, pageToken?: string): Promise<SearchPage> {
+  // Call backend Supabase Edge Function (API keys are secure on backend)
+  const request: YouTubeSearchRequest = {
+    query,
+    maxResults: 10,
+    videoDuration: 'short',
+    ...(pageToken ? { pageToken } : {}),
+    ...(songTitle ? { songTitle } : {}),
+  };
+  const { data, error: fnError } = await supabase.functions.invoke('youtube-search', {
+    body: request,
+    headers: { [REQUEST_ID_HEADER]: requestId },
+  });
+
+  if (fnError) {
+    // Non-2xx answers still carry the contract's failure body, with a code for quota exhaustion
+    const body = fnError instanceof FunctionsHttpError ? await fnError.context.json().catch(() => null) : null;
+    const failure = parseYouTubeSearchResponse(body);
+    if (failure.success === true && failure.data.success === false && failure.data.code === 'QUOTA_EXHAUSTED') {
+      throw new QuotaExhaustedError(failure.data.retryAfterSeconds);
+    }
+    throw new Error(fnError.message || 'Failed to call YouTube API');
+  }
+
+  const parsed = parseYouTubeSearchResponse(data);
+  if (parsed.success === false) {
+    throw new Error(`Unexpected youtube-search response: ${formatIssues(parsed.issues)}`);
+  }
+  if (parsed.data.success === false) {
+    throw new Error(parsed.data.error || 'YouTube API returned an error');
+  }
+  return { videos: parsed.data.videos, nextPageToken: parsed.data.nextPageToken ?? null };
+}
+
+/**
+ * Searches in order, each only while the merged results have fewer than ENOUGH_VIDEOS:
+ * every search costs YouTube quota, so a song whose first search finds enough costs one.
+ * Searches that didn't run stay pending, after the next pages of those that did.
+ * Fails only when every search that ran fails, with quota exhaustion reported over other errors.
+ */
+async function searchAll(
+  searches: PendingSearch[],
+  requestId: string
+): Promise<{ videos: YouTubeVideo[]; pending: PendingSearch[] }> {
+  const pages: YouTubeVideo[][] = [];
+  const continued: PendingSearch[] = [];
+  const failures: unknown[] = [];
+  let ran = 0;
+  while (ran < searches.length && mergeSearchResults(pages).length < ENOUGH_VIDEOS) {
+    const search = searches[ran++];
+    try {
+      const page = await searchVideos(search, requestId, search.pageToken);
+      pages.push(page.videos);
+      const { query, songTitle } = search;
+      if (page.nextPageToken) continued.push({ query, songTitle, pageToken: page.nextPageToken });
+    } catch (err) {
+      failures.push(err);
+      const message = err instanceof Error ? err.message : err;
+      console.warn(`Video search "${search.query}" failed (request ${requestId}):`, message);
+      // Every key is out of quota; the remaining searches would fail the same way
+      if (err instanceof QuotaExhaustedError) break;
+    }
+  }
+
+  if (pages.length === 0) {
+    throw failures.find((err) => err instanceof QuotaExhaustedError) ?? failures[0];
+  }
+  return { videos: mergeSearchResults(pages), pending: [...continued, ...searches.slice(ran)] };
+}
+
+/** Movie names song_hooksteps has for a song, to search by; empty when the lookup fails. */
+async function hookstepMovieNames(songTitle: string): Promise<string[]> {
+  // ilike without wildcards: a case-insensitive exact match
+  const pattern = songTitle.replace(/[\\%_]/g, (char) => `\\${char}`);
+  const { data, error } = await supabase
+    .from('song_hooksteps')
+    .select('movie_name')
+    .ilike('song_title', pattern)
+    .not('movie_name', 'is', null)
+    .limit(5);
+  if (error) {
+    console.warn('song_hooksteps lookup failed; searching without movie names:', error.message);
+    return [];
+  }
+  return (data ?? []).map((row) => row.movie_name).filter((name): name is string => !!name);
+}
+
 interface UseVideoQueueReturn {
   videos: YouTubeVideo[];
   currentIndex: number;
   isLoading: boolean;
   error: string | null;
-  addVideosFromQuery: (query: string, replace?: boolean, autoScroll?: boolean) => Promise<void>;
+  // query: typed text, or several targeted searches whose results are merged
+  // requestId: the recognition that led to this search, so both show up under one id in the logs
+  addVideosFromQuery: (
+    query: string | VideoSearch[],
+    replace?: boolean,
+    autoScroll?: boolean,
+    requestId?: string
+  ) => Promise<void>;
+  // Hookstep, then tutorial and choreography searches (only while too few videos came back)
+  // for a recognized track, added without replacing the feed and scrolled to
+  addVideosForTrack: (track: SearchTrack, requestId?: string) => Promise<void>;
   goToNext: () => void;
   goToPrevious: () => void;
   clearQueue: () => void;
@@ -25,11 +157,26 @@ export function useVideoQueue(): UseVideoQueueReturn {
   const currentQueryRef = useRef<string>('');
   const currentVideoIdRef = useRef<string | null>(null); // Track currently playing video ID
   const currentIndexRef = useRef<number>(0); // Track current index for reliable access
+  // Where the latest searches continue, and the videos they added (the song's section of
+  // the feed, which later pages extend); null when none has more pages
+  const nextPageRef = useRef<{ searches: PendingSearch[]; requestId: string; sectionIds: Set<string> } | null>(null);
+  const loadingNextPageRef = useRef(false);
+  // The feed as of the last render, for telling which results are new outside state updaters
+  const videosRef = useRef<YouTubeVideo[]>([]);
 
-  const addVideosFromQuery = useCallback(async (query: string, replace: boolean = false, autoScroll: boolean = false) => {
-    if (!query.trim()) return;
+  const addVideosFromQuery = useCallback(async (
+    query: string | VideoSearch[],
+    replace: boolean = false,
+    autoScroll: boolean = false,
+    requestId: string = newRequestId()
+  ) => {
+    const searches = (typeof query === 'string' ? [{ query }] : query)
+      .map((search) => ({ ...search, query: search.query.trim() }))
+      .filter((search) => search.query);
+    if (searches.length === 0) return;
     
-    const normalizedQuery = query.trim().toLowerCase();
+    const queryText = searches.map((search) => search.query).join(' | ');
+    const normalizedQuery = queryText.toLowerCase();
     
     // If replacing, keep current video and remove future videos
     if (replace) {
@@ -43,7 +190,7 @@ export function useVideoQueue(): UseVideoQueueReturn {
         });
         // Don't reset currentIndex - keep it so current video continues playing
         searchedQueriesRef.current.clear();
-        currentQueryRef.current = query.trim();
+        currentQueryRef.current = queryText;
       } else {
         // Same query, don't search again
         return;
@@ -60,24 +207,12 @@ export function useVideoQueue(): UseVideoQueueReturn {
     setError(null);
 
     try {
-      // Call backend Supabase Edge Function (API keys are secure on backend)
-      const { data, error: fnError } = await supabase.functions.invoke('youtube-search', {
-        body: {
-          query: query.trim(),
-          maxResults: 10,
-          videoDuration: 'short',
-        },
-      });
-
-      if (fnError) {
-        throw new Error(fnError.message || 'Failed to call YouTube API');
-      }
-
-      if (!data?.success) {
-        throw new Error(data?.error || 'YouTube API returned an error');
-      }
-
-      const newVideos: YouTubeVideo[] = data.videos || [];
+      const page = await searchAll(searches, requestId);
+      const newVideos: YouTubeVideo[] = page.videos;
+      // Later pages of the latest song go after its videos as the viewer nears the end of the feed
+      const existingIds = new Set(videosRef.current.map(v => v.id));
+      const sectionIds = new Set(newVideos.filter(v => !existingIds.has(v.id)).map(v => v.id));
+      nextPageRef.current = page.pending.length > 0 ? { searches: page.pending, requestId, sectionIds } : null;
 
       // If replacing, keep current video and append new videos after it
       if (replace) {
@@ -182,8 +317,16 @@ export function useVideoQueue(): UseVideoQueueReturn {
         });
       }
     } catch (err) {
+      nextPageRef.current = null;
+      if (err instanceof QuotaExhaustedError) {
+        // The sample videos would be for the wrong song; say why there are no new ones instead
+        console.warn(`YouTube quota exhausted (request ${requestId})`);
+        searchedQueriesRef.current.delete(normalizedQuery);
+        setError(err.message);
+        return;
+      }
       const message = err instanceof Error ? err.message : 'Failed to search videos';
-      console.warn('YouTube API failed, using fallback data:', message);
+      console.warn(`YouTube API failed (request ${requestId}), using fallback data:`, message);
       
       // Fallback to sample payload when API fails
       const fallbackPayload = {
@@ -314,22 +457,75 @@ export function useVideoQueue(): UseVideoQueueReturn {
     }
   }, []);
 
+  // Insert the next page of the latest searches after that song's videos, so its feed
+  // continues instead of running into earlier songs. A page of videos already in the feed
+  // is followed by the next one right away, since no swipe would come to ask for it.
+  const loadNextPage = useCallback(async () => {
+    if (!nextPageRef.current || loadingNextPageRef.current) return;
+    loadingNextPageRef.current = true;
+    let next = nextPageRef.current;
+    try {
+      for (let emptyPages = 0; next && emptyPages < MAX_EMPTY_PAGES; emptyPages++) {
+        const current = next;
+        const page = await searchAll(current.searches, current.requestId);
+        if (nextPageRef.current !== current) return; // A new song's search replaced this one meanwhile
+
+        const existingIds = new Set(videosRef.current.map(v => v.id));
+        const added = page.videos.filter(v => !existingIds.has(v.id));
+        const sectionIds = new Set([...current.sectionIds, ...added.map(v => v.id)]);
+        next = page.pending.length > 0 ? { ...current, searches: page.pending, sectionIds } : null;
+        nextPageRef.current = next;
+        if (added.length === 0) continue;
+
+        setVideos(prev => {
+          const prevIds = new Set(prev.map(v => v.id));
+          const fresh = added.filter(v => !prevIds.has(v.id));
+          let sectionEnd = prev.length - 1;
+          while (sectionEnd >= 0 && !current.sectionIds.has(prev[sectionEnd].id)) sectionEnd--;
+          // The song's videos are gone (e.g. swiped past and removed): append
+          if (sectionEnd === -1) return [...prev, ...fresh];
+          return [...prev.slice(0, sectionEnd + 1), ...fresh, ...prev.slice(sectionEnd + 1)];
+        });
+        return;
+      }
+    } catch (err) {
+      // The feed just stops growing; the next swipe near the end tries again
+      console.warn(`Next page of videos failed (request ${next?.requestId}):`, err instanceof Error ? err.message : err);
+    } finally {
+      loadingNextPageRef.current = false;
+    }
+  }, []);
+
+  const addVideosForTrack = useCallback(async (
+    track: SearchTrack,
+    requestId: string = newRequestId()
+  ) => {
+    const movieNames = await hookstepMovieNames(trackSongTitle(track));
+    // Add without replacing current ones, then auto-scroll to the first new video
+    await addVideosFromQuery(buildTrackSearches(track, movieNames), false, true, requestId);
+  }, [addVideosFromQuery]);
+
+  useEffect(() => {
+    videosRef.current = videos;
+  }, [videos]);
+
+  // Prefetch once the user nears the end of the feed. An effect, not the swipe handler's
+  // state updater: React may run updaters twice (StrictMode), which would fetch twice.
+  useEffect(() => {
+    if (videos.length > 0 && videos.length - 1 - currentIndex < PREFETCH_REMAINING) void loadNextPage();
+  }, [currentIndex, videos.length, loadNextPage]);
+
   const goToNext = useCallback(() => {
     setCurrentIndex(prev => {
-      if (prev < videos.length - 1) {
-        const newIndex = prev + 1;
+      const newIndex = prev < videos.length - 1 ? prev + 1 : prev;
+      if (newIndex !== prev) {
         currentIndexRef.current = newIndex;
         // Update current video ID
         if (videos[newIndex]) {
           currentVideoIdRef.current = videos[newIndex].id;
         }
-        // Remove videos below current position (already watched)
-        setTimeout(() => {
-          setVideos(currentVideos => currentVideos.slice(0, newIndex + 5));
-        }, 100);
-        return newIndex;
       }
-      return prev;
+      return newIndex;
     });
   }, [videos]);
 
@@ -354,6 +550,7 @@ export function useVideoQueue(): UseVideoQueueReturn {
     searchedQueriesRef.current.clear();
     currentQueryRef.current = '';
     currentVideoIdRef.current = null;
+    nextPageRef.current = null;
   }, []);
 
   return {
@@ -362,6 +559,7 @@ export function useVideoQueue(): UseVideoQueueReturn {
     isLoading,
     error,
     addVideosFromQuery,
+    addVideosForTrack,
     goToNext,
     goToPrevious,
     clearQueue,
@@ -65,12 +65,74 @@ export type Database = {
         }
         Relationships: []
       }
+      youtube_api_quota: {
+        Row: {
+          exhausted_at: string | null
+          key_id: string
+          quota_day: string
+          units_used: number
+          updated_at: string
+        }
+        Insert: {
+          exhausted_at?: string | null
+          key_id: string
+          quota_day: string
+          units_used?: number
+          updated_at?: string
+        }
+        Update: {
+          exhausted_at?: string | null
+          key_id?: string
+          quota_day?: string
+          units_used?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      youtube_search_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          expires_at: string
+          params: Json
+          query: string
+          response: Json
+          updated_at: string
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          expires_at: string
+          params?: Json
+          query: string
+          response: Json
+          updated_at?: string
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          expires_at?: string
+          params?: Json
+          query?: string
+          response?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      spend_youtube_quota: {
+        Args: {
+          p_exhausted: boolean
+          p_key_id: string
+          p_quota_day: string
+          p_units: number
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,33 @@
+const STORAGE_KEY = 'recognize-client-token';
+
+let cached: string | null = null;
+
+/**
+ * Per-browser id sent to the recognize server, which rate limits per token as well as
+ * per IP (many guests at one venue can share a public IP). Random at first; replaced by
+ * the id the recognize-token Edge Function issues (see setClientToken).
+ */
+export function getClientToken(): string {
+  if (cached) return cached;
+  try {
+    cached = localStorage.getItem(STORAGE_KEY);
+    if (!cached) {
+      cached = crypto.randomUUID();
+      localStorage.setItem(STORAGE_KEY, cached);
+    }
+  } catch {
+    // Storage blocked (private mode): keep a token for this page load only
+    cached = crypto.randomUUID();
+  }
+  return cached;
+}
+
+/** Keep the client id the recognize-token Edge Function issued, which signed tokens carry. */
+export function setClientToken(token: string): void {
+  cached = token;
+  try {
+    localStorage.setItem(STORAGE_KEY, token);
+  } catch {
+    // Storage blocked: the id lasts for this page load
+  }
+}
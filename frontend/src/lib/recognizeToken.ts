@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getClientToken, setClientToken } from './clientToken';
+
+const REFRESH_MARGIN_MS = 60 * 1000; // Refresh this long before expiry
+const RETRY_AFTER_FAILURE_MS = 30 * 1000; // Don't hammer the Edge Function when it's down
+
+let current: { token: string; expiresAt: number } | null = null;
+let pending: Promise<string | null> | null = null;
+let failedAt = 0;
+
+async function fetchToken(): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('recognize-token', {
+      body: { clientId: getClientToken() },
+    });
+    if (error || !data?.success || !data.token) {
+      throw new Error(error?.message || data?.error || 'No token in response');
+    }
+    // The Edge Function keeps ids it issued and replaces any other
+    if (typeof data.clientId === 'string') setClientToken(data.clientId);
+    current = { token: data.token, expiresAt: data.expiresAt };
+    return current.token;
+  } catch (err) {
+    // Servers without enforcement still accept unsigned requests
+    console.warn('Recognize token unavailable:', err);
+    failedAt = Date.now();
+    return null;
+  }
+}
+
+/**
+ * Signed token for the recognize server, issued by the recognize-token Edge Function.
+ * Cached and refreshed shortly before it expires; null if none could be fetched.
+ */
+export async function getRecognizeToken(): Promise<string | null> {
+  if (current && current.expiresAt - Date.now() > REFRESH_MARGIN_MS) return current.token;
+  if (Date.now() - failedAt < RETRY_AFTER_FAILURE_MS) return current?.token ?? null;
+  pending ??= fetchToken().finally(() => {
+    pending = null;
+  });
+  return pending;
+}
+
+/** Drop the cached token (e.g. after the server rejected it) so the next call fetches a new one. */
+export function invalidateRecognizeToken(): void {
+  current = null;
+  failedAt = 0;
+}
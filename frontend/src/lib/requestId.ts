@@ -0,0 +1,8 @@
+/**
+ * Id for one recognition (or one listening stream). Sent as X-Request-Id to the recognize
+ * server and to the youtube-search call the identified song leads to, so the logs of both
+ * can be joined to follow a user's recognition-to-video flow.
+ */
+export function newRequestId(): string {
+  return crypto.randomUUID();
+}
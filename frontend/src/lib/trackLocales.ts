@@ -0,0 +1,27 @@
+import type { RecognizedTrack } from '@contract';
+
+/**
+ * Languages the recognize server titles tracks in. Unset VITE_RECOGNIZE_LOCALE keeps the
+ * server's default; VITE_RECOGNIZE_METADATA_LOCALES (default hi-IN) adds titleVariants, so a
+ * Bollywood track comes back in Devanagari as well as romanized.
+ */
+const LOCALE = (import.meta.env.VITE_RECOGNIZE_LOCALE as string | undefined)?.trim();
+const METADATA_LOCALES = ((import.meta.env.VITE_RECOGNIZE_METADATA_LOCALES as string | undefined) ?? 'hi-IN').trim();
+
+/** `locale` and `metadataLocales`, as upload form fields or stream query params. */
+export function localeParams(): Record<string, string> {
+  return {
+    ...(LOCALE ? { locale: LOCALE } : {}),
+    ...(METADATA_LOCALES ? { metadataLocales: METADATA_LOCALES } : {}),
+  };
+}
+
+/**
+ * YouTube search text for a track. Dance-short titles are mostly romanized ("Kesariya",
+ * not "केसरिया"), so a Latin-script title variant wins over the track's own title.
+ */
+export function trackSearchQuery(track: Pick<RecognizedTrack, 'title' | 'subtitle' | 'titleVariants'>): string {
+  const latin = track.titleVariants?.find((variant) => variant.script === 'latin');
+  const { title, subtitle } = latin ?? track;
+  return `${title} ${subtitle}`.trim();
+}
@@ -0,0 +1,97 @@
+import type { RecognizedTrack, YouTubeVideo } from '@contract';
+
+/**
+ * Targeted YouTube searches for a recognized track. Release titles like
+ * `Kesariya (From "Brahmastra")` or `Song (feat. Someone)` find few dance videos as they
+ * are; people title their reels with the song and the movie, plus "hookstep" or "tutorial".
+ */
+
+/** One youtube-search request: the query and the song title its results are ranked against. */
+export interface VideoSearch {
+  query: string;
+  songTitle?: string;
+}
+
+export type SearchTrack = Pick<RecognizedTrack, 'title' | 'subtitle' | 'titleVariants'>;
+
+/** What people add to the song when they post the dance; youtube-search appends "dance shorts". */
+const SEARCH_KINDS = ['hookstep', 'tutorial', 'original choreography'];
+/** Movie names beyond the first get a hookstep search each, up to this many in total. */
+const MAX_MOVIE_NAMES = 2;
+
+const FEAT_CREDIT = /\s+(?:feat\.?|ft\.?|featuring)\s.*$/i;
+/** `(From "Movie")` or ` - From "Movie"`, as streaming services title film songs. */
+const FROM_MOVIE = /(?:\(\s*|\s-\s*)from\s+["“']?([^"”')]+?)["”']?\s*(?:\)|$)/i;
+
+/** The romanized title and artist when the server sent a Latin-script variant. */
+function romanized(track: SearchTrack): { title: string; subtitle: string } {
+  return track.titleVariants?.find((variant) => variant.script === 'latin') ?? track;
+}
+
+/** The song title without bracketed parts, " - From ..." suffixes or feat. credits. */
+export function cleanTitle(title: string): string {
+  return title
+    .replace(FROM_MOVIE, ' ')
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/\s-\s.*$/, ' ')
+    .replace(FEAT_CREDIT, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** The artist without feat. credits. */
+export function cleanArtist(subtitle: string): string {
+  return subtitle.replace(FEAT_CREDIT, '').replace(/\s+/g, ' ').trim();
+}
+
+/** The title to search and rank by: romanized when possible, then cleaned. */
+export function trackSongTitle(track: SearchTrack): string {
+  const { title } = romanized(track);
+  return cleanTitle(title) || title.trim();
+}
+
+/** The movie named in a title like `Kesariya (From "Brahmastra")`, if any. */
+export function movieFromTitle(title: string): string | null {
+  return title.match(FROM_MOVIE)?.[1].trim() || null;
+}
+
+/**
+ * Searches for a track: hookstep, tutorial and original choreography for the cleaned title
+ * with the movie (or the artist when there is none), plus a hookstep search per further
+ * movie name, in the order they should run. movieNames come from song_hooksteps; a movie in
+ * the title is added to them.
+ */
+export function buildTrackSearches(track: SearchTrack, movieNames: string[] = []): VideoSearch[] {
+  const { title, subtitle } = romanized(track);
+  const songTitle = trackSongTitle(track);
+  const fromTitle = movieFromTitle(title);
+  const movies = [...(fromTitle ? [fromTitle] : []), ...movieNames]
+    .map((movie) => movie.trim())
+    .filter((movie, i, all) => movie && all.findIndex((other) => other.toLowerCase() === movie.toLowerCase()) === i)
+    .slice(0, MAX_MOVIE_NAMES);
+  const context = movies[0] ?? cleanArtist(subtitle);
+
+  const queries = [
+    ...SEARCH_KINDS.map((kind) => `${songTitle} ${context} ${kind}`),
+    ...movies.slice(1).map((movie) => `${songTitle} ${movie} ${SEARCH_KINDS[0]}`),
+  ].map((query) => query.replace(/\s+/g, ' ').trim());
+  return [...new Set(queries)].map((query) => ({ query, songTitle }));
+}
+
+/**
+ * Results of several searches as one list: each video once, with its best score, best
+ * first. Equal scores alternate between the searches, so no single one fills the top.
+ */
+export function mergeSearchResults(pages: YouTubeVideo[][]): YouTubeVideo[] {
+  const byId = new Map<string, YouTubeVideo>();
+  const longest = Math.max(0, ...pages.map((page) => page.length));
+  for (let i = 0; i < longest; i++) {
+    for (const page of pages) {
+      const video = page[i];
+      if (!video) continue;
+      const seen = byId.get(video.id);
+      if (!seen || (video.score ?? 0) > (seen.score ?? 0)) byId.set(video.id, video);
+    }
+  }
+  return [...byId.values()].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
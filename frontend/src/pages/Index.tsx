@@ -4,8 +4,10 @@ import { Button } from '@/components/ui/button';
 import { ListeningIndicator } from '@/components/ListeningIndicator';
 import NeonReels from '@/components/NeonReels';
 import { useContinuousListening } from '@/hooks/useContinuousListening';
-import { useShazamRecognition } from '@/hooks/useShazamRecognition';
+import { useStreamingRecognition } from '@/hooks/useStreamingRecognition';
 import { useVideoQueue } from '@/hooks/useVideoQueue';
+import type { ShazamTrack } from '@/hooks/useShazam';
+import { trackSearchQuery } from '@/lib/trackLocales';
 import { Mic, AlertCircle, Music } from 'lucide-react';
 
 type AppState = 'idle' | 'listening' | 'error';
@@ -22,6 +24,7 @@ const Index = () => {
     isLoading: isSearching,
     error: searchError,
     addVideosFromQuery,
+    addVideosForTrack,
     goToNext,
     goToPrevious,
     clearQueue,
@@ -38,29 +41,25 @@ const Index = () => {
   }, [addVideosFromQuery, latestQuery]);
 
   // Handle Shazam song identification - use full track data
-  const handleShazamSongIdentified = useCallback((track: { 
-    title: string; 
-    subtitle: string;
-    key?: string;
-    images?: { coverart?: string; background?: string };
-    url?: string;
-  }) => {
-    // Create a better search query using song title and artist
-    // Format: "Song Title Artist" for better YouTube search results
-    const searchQuery = `${track.title} ${track.subtitle}`.trim();
+  const handleShazamSongIdentified = useCallback((track: ShazamTrack, requestId?: string) => {
+    // "Song Title Artist", romanized when the server sent a Latin-script variant; tells songs
+    // apart when the track has no key
+    const searchQuery = trackSearchQuery(track);
     
     // Only search if it's a different song (check by track key if available)
     const trackKey = track.key || searchQuery;
     if (searchQuery && trackKey !== latestQuery) {
       setLatestQuery(trackKey);
       setIsMuted(false);
-      // Add new videos without replacing current ones, then auto-scroll to first new video
+      // Hookstep, tutorial and choreography searches for the cleaned title and movie, merged;
+      // added without replacing current ones, then auto-scrolled to the first new video
       // This keeps the current video playing while loading new ones
-      addVideosFromQuery(searchQuery, false, true); // false = don't replace, true = auto-scroll
+      // requestId ties the searches to the recognition in the logs
+      addVideosForTrack(track, requestId);
     }
-  }, [addVideosFromQuery, latestQuery]);
+  }, [addVideosForTrack, latestQuery]);
 
-  // Song recognition via Node-shazam (recognize API) every 5 seconds
+  // Song recognition: mic audio streamed to the recognize server, which pushes song changes
   const {
     isListening: isShazamListening,
     isProcessing: isShazamProcessing,
@@ -69,11 +68,9 @@ const Index = () => {
     startListening: startShazam,
     stopListening: stopShazam,
     setEnabled: setShazamEnabled,
-  } = useShazamRecognition({
+  } = useStreamingRecognition({
     autoStart: false,
-    captureDuration: 2500, // 2.5 seconds audio capture (faster Shazam recognition)
-    intervalMs: 4000, // Fire API every 4 seconds
-    enabled: true, // Interval flag - set to false to disable
+    enabled: true, // Set to false to disable recognition
     onSongIdentified: handleShazamSongIdentified,
   });
 
@@ -308,6 +305,15 @@ const Index = () => {
                   >
                     {isShazamProcessing ? 'Identifying song...' : 'Searching for dance videos...'}
                   </motion.span>
+                )}
+                {searchError && !isProcessing && (
+                  <motion.span
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    className="text-xs text-destructive"
+                  >
+                    {searchError}
+                  </motion.span>
                 )}
                   </div>
                 </div>
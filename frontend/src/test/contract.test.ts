@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatIssues,
+  parseRecognizeResponse,
+  parseYouTubeSearchRequest,
+  parseYouTubeSearchResponse,
+  type RecognizeFailure,
+  type RecognizeSuccess,
+  type YouTubeSearchResponse,
+} from "@contract";
+
+// Bodies as the recognize server and youtube-search send them; `satisfies` keeps them in
+// step with the contract types, the parse calls check the runtime validators agree.
+const track = {
+  key: "mock-kesariya",
+  title: "Kesariya",
+  subtitle: "Arijit Singh",
+  type: "MUSIC",
+  images: { coverart: "https://example.com/cover.jpg" },
+  hub: { actions: [{ name: "apple", type: "uri", uri: "https://example.com/preview.m4a" }] },
+};
+
+const diagnostics = {
+  loudnessDbfs: -23.4,
+  peakDbfs: -3.1,
+  clippingRatio: 0,
+  estimatedSnrDb: 18.2,
+  warnings: [],
+} satisfies RecognizeSuccess["diagnostics"];
+
+const matched = {
+  success: true,
+  cached: false,
+  provider: "mock",
+  score: 0.92,
+  diagnostics,
+  data: { matches: [{ track }], track, offsetSeconds: 41.3, capturedAt: 1760000000000 },
+} satisfies RecognizeSuccess;
+
+const noMatch = {
+  success: false,
+  error: "Could not identify the song.",
+  diagnostics: { ...diagnostics, loudnessDbfs: -52, warnings: ["too-quiet"] },
+} satisfies RecognizeFailure;
+
+const videos = {
+  success: true,
+  videos: [
+    {
+      id: "gsSfJAI6h9g",
+      title: "RAM AAYENGE LONG VERSION",
+      channelTitle: "RITU'S DANCE STUDIO",
+      thumbnail: "https://i.ytimg.com/vi/gsSfJAI6h9g/hqdefault.jpg",
+      description: "",
+    },
+  ],
+  totalResults: 701774,
+} satisfies YouTubeSearchResponse;
+
+function issuesOf(result: { success: boolean; issues?: { path: string }[] }): string[] {
+  return result.success ? [] : result.issues.map((issue) => issue.path);
+}
+
+describe("recognize contract", () => {
+  it("accepts a match, a match without offset and a no-match", () => {
+    expect(parseRecognizeResponse(matched).success).toBe(true);
+    expect(parseRecognizeResponse({ ...matched, score: undefined, data: { ...matched.data, offsetSeconds: null } }).success).toBe(true);
+    expect(parseRecognizeResponse(noMatch).success).toBe(true);
+  });
+
+  it("accepts rate-limit and upload errors", () => {
+    expect(parseRecognizeResponse({ success: false, error: "Too many requests", retryAfterSeconds: 12 }).success).toBe(true);
+    expect(parseRecognizeResponse({ success: false, error: "File too large" }).success).toBe(true);
+  });
+
+  it("accepts title variants and rejects an unknown script", () => {
+    const variants = [
+      { locale: "hi-IN", script: "devanagari", title: "केसरिया", subtitle: "अरिजीत सिंह" },
+      { locale: "en-US", script: "latin", title: "Kesariya", subtitle: "Arijit Singh" },
+    ];
+    const localized = { ...track, titleVariants: variants };
+    expect(parseRecognizeResponse({ ...matched, data: { ...matched.data, track: localized } }).success).toBe(true);
+    const cyrillic = { ...track, titleVariants: [{ ...variants[0], script: "cyrillic" }] };
+    expect(issuesOf(parseRecognizeResponse({ ...matched, data: { ...matched.data, track: cyrillic } }))).toContain(
+      "data.track.titleVariants[0].script"
+    );
+  });
+
+  it("rejects a match whose track lost its key", () => {
+    const { key: _key, ...keyless } = track;
+    const result = parseRecognizeResponse({ ...matched, data: { ...matched.data, track: keyless } });
+    expect(issuesOf(result)).toContain("data.track.key");
+  });
+
+  it("rejects renamed or mistyped fields", () => {
+    const { capturedAt: _capturedAt, ...rest } = matched.data;
+    expect(issuesOf(parseRecognizeResponse({ ...matched, data: { ...rest, captured_at: 1 } }))).toContain("data.capturedAt");
+    expect(issuesOf(parseRecognizeResponse({ ...matched, provider: "acrcloud" }))).toContain("provider");
+    expect(issuesOf(parseRecognizeResponse({ ...matched, diagnostics: { ...diagnostics, warnings: ["muffled"] } }))).toContain(
+      "diagnostics.warnings[0]"
+    );
+  });
+
+  it("rejects bodies that aren't responses at all", () => {
+    expect(parseRecognizeResponse(null).success).toBe(false);
+    expect(parseRecognizeResponse("<html>Bad gateway</html>").success).toBe(false);
+    expect(parseRecognizeResponse({ ok: true }).success).toBe(false);
+  });
+});
+
+describe("youtube-search contract", () => {
+  it("validates the request the frontend sends", () => {
+    expect(parseYouTubeSearchRequest({ query: "Kesariya", maxResults: 10, videoDuration: "short" }).success).toBe(true);
+    expect(parseYouTubeSearchRequest({ query: "Kesariya" }).success).toBe(true);
+    expect(issuesOf(parseYouTubeSearchRequest({ query: "  " }))).toEqual(["query"]);
+    expect(issuesOf(parseYouTubeSearchRequest({ query: "Kesariya", maxResults: 500 }))).toEqual(["maxResults"]);
+    expect(issuesOf(parseYouTubeSearchRequest({ query: "Kesariya", videoDuration: "shorts" }))).toEqual(["videoDuration"]);
+    expect(parseYouTubeSearchRequest({ query: "Kesariya", pageToken: "CAoQAA" }).success).toBe(true);
+    expect(issuesOf(parseYouTubeSearchRequest({ query: "Kesariya", pageToken: "" }))).toEqual(["pageToken"]);
+    expect(parseYouTubeSearchRequest({ query: "Kesariya Arijit Singh", songTitle: "Kesariya" }).success).toBe(true);
+  });
+
+  it("accepts results and errors", () => {
+    expect(parseYouTubeSearchResponse(videos).success).toBe(true);
+    expect(parseYouTubeSearchResponse({ success: true, videos: [], totalResults: 0 }).success).toBe(true);
+    expect(parseYouTubeSearchResponse({ ...videos, cache: "hit" }).success).toBe(true);
+    const ranked = { ...videos.videos[0], score: 7.5, reasons: ["hookstep in title (+4)", "vertical (+1)"] };
+    expect(parseYouTubeSearchResponse({ ...videos, videos: [ranked] }).success).toBe(true);
+    expect(issuesOf(parseYouTubeSearchResponse({ ...videos, videos: [{ ...ranked, reasons: "hookstep" }] }))).toEqual([
+      "videos[0].reasons",
+    ]);
+    expect(parseYouTubeSearchResponse({ ...videos, nextPageToken: "CAoQAA" }).success).toBe(true);
+    expect(issuesOf(parseYouTubeSearchResponse({ ...videos, cache: "warm" }))).toEqual(["cache"]);
+    expect(parseYouTubeSearchResponse({ success: false, error: "YouTube API key not configured" }).success).toBe(true);
+    const exhausted = { success: false, error: "Quota used up", code: "QUOTA_EXHAUSTED", retryAfterSeconds: 3600 };
+    expect(parseYouTubeSearchResponse(exhausted).success).toBe(true);
+    expect(issuesOf(parseYouTubeSearchResponse({ ...exhausted, code: "RATE_LIMITED" }))).toEqual(["code"]);
+  });
+
+  it("rejects videos missing fields the reels need", () => {
+    const { thumbnail: _thumbnail, ...video } = videos.videos[0];
+    const result = parseYouTubeSearchResponse({ ...videos, videos: [video] });
+    expect(issuesOf(result)).toEqual(["videos[0].thumbnail"]);
+    expect(result.success === false && formatIssues(result.issues)).toBe("videos[0].thumbnail: required");
+  });
+});
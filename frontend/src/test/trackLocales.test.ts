@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { trackSearchQuery } from "@/lib/trackLocales";
+
+describe("trackSearchQuery", () => {
+  it("prefers the romanized title variant", () => {
+    const track = {
+      title: "केसरिया",
+      subtitle: "अरिजीत सिंह",
+      titleVariants: [
+        { locale: "hi-IN", script: "devanagari" as const, title: "केसरिया", subtitle: "अरिजीत सिंह" },
+        { locale: "en-US", script: "latin" as const, title: "Kesariya", subtitle: "Arijit Singh" },
+      ],
+    };
+    expect(trackSearchQuery(track)).toBe("Kesariya Arijit Singh");
+  });
+
+  it("uses the track's own title without variants", () => {
+    expect(trackSearchQuery({ title: "Kesariya", subtitle: "" })).toBe("Kesariya");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { buildTrackSearches, cleanTitle, mergeSearchResults } from "@/lib/trackSearches";
+
+const video = (id: string, score?: number) => ({ id, title: id, channelTitle: "", thumbnail: "", description: "", score });
+
+describe("cleanTitle", () => {
+  it("drops movie credits, bracketed parts and feat. credits", () => {
+    expect(cleanTitle('Kesariya (From "Brahmastra")')).toBe("Kesariya");
+    expect(cleanTitle('Tum Hi Ho - From "Aashiqui 2"')).toBe("Tum Hi Ho");
+    expect(cleanTitle("Naatu Naatu [Official Video]")).toBe("Naatu Naatu");
+    expect(cleanTitle("Jhoome Jo Pathaan feat. Arijit Singh")).toBe("Jhoome Jo Pathaan");
+  });
+});
+
+describe("buildTrackSearches", () => {
+  it("searches the cleaned title with the movie from the title and song_hooksteps", () => {
+    const track = { title: 'Kesariya (From "Brahmastra")', subtitle: "Pritam, Arijit Singh" };
+    expect(buildTrackSearches(track, ["brahmastra", "Brahmastra Part One: Shiva"])).toEqual([
+      { query: "Kesariya Brahmastra hookstep", songTitle: "Kesariya" },
+      { query: "Kesariya Brahmastra tutorial", songTitle: "Kesariya" },
+      { query: "Kesariya Brahmastra original choreography", songTitle: "Kesariya" },
+      { query: "Kesariya Brahmastra Part One: Shiva hookstep", songTitle: "Kesariya" },
+    ]);
+  });
+
+  it("falls back to the artist without feat. credits", () => {
+    const track = {
+      title: "केसरिया",
+      subtitle: "अरिजीत सिंह",
+      titleVariants: [
+        { locale: "en-US", script: "latin" as const, title: "Kesariya", subtitle: "Arijit Singh feat. Pritam" },
+      ],
+    };
+    expect(buildTrackSearches(track).map((search) => search.query)).toEqual([
+      "Kesariya Arijit Singh hookstep",
+      "Kesariya Arijit Singh tutorial",
+      "Kesariya Arijit Singh original choreography",
+    ]);
+  });
+});
+
+describe("mergeSearchResults", () => {
+  it("keeps each video once with its best score, best first", () => {
+    const merged = mergeSearchResults([[video("a", 5), video("b", 2)], [video("b", 9), video("c", 5)]]);
+    expect(merged.map((entry) => [entry.id, entry.score])).toEqual([["b", 9], ["a", 5], ["c", 5]]);
+  });
+
+  it("alternates between searches on equal scores", () => {
+    const merged = mergeSearchResults([[video("a"), video("b")], [video("c"), video("d")]]);
+    expect(merged.map((entry) => entry.id)).toEqual(["a", "c", "b", "d"]);
+  });
+});
@@ -1,8 +1,2 @@
-// YouTube video type definition
-export interface YouTubeVideo {
-  id: string;
-  title: string;
-  channelTitle: string;
-  thumbnail: string;
-  description: string;
-}
+// YouTube video type definition (shared with the youtube-search Edge Function)
+export type { YouTubeVideo } from '@contract';
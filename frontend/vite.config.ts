@@ -1,4 +1,4 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
@@ -10,6 +10,10 @@ export default defineConfig({
     hmr: {
       overlay: false,
     },
+    fs: {
+      // Shared API contract lives next to the backend that serves it
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, "../backend/contract")],
+    },
     allowedHosts: [
       ".ngrok-free.app",
       ".ngrok.io",
@@ -21,6 +25,7 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@contract": path.resolve(__dirname, "../backend/contract/index.ts"),
     },
   },
 });